@@ -16,10 +16,48 @@ import Environment from "../parser/symbol_table/environment";
 import { DeclarationKind, SymbolData } from "../parser/symbol_table/symtable";
 import { HoistedVarDeclaration } from "../type/declaration";
 import FunctionType, { ParameterTypeInfo } from "../type/function-type";
-import GenericType, { GenericInstance, t_Array } from "../type/generic-type";
+import GenericType, {
+	fillDefaults,
+	GenericFunctionType,
+	GenericInstance,
+	instanceOrigin,
+	t_Array,
+	unsatisfiedConstraint,
+} from "../type/generic-type";
 import ObjectType, { checkObjectAssignment } from "../type/object-type";
 import * as Typing from "../type/types";
-import UnionType from "../type/union-type";
+import UnionType, { unionOf, withoutNil } from "../type/union-type";
+import ClassType from "../type/class-type";
+import EnumType from "../type/enum-type";
+import TupleType from "../type/tuple-type";
+import loadPrelude from "./prelude";
+import { CompilerOptions, defaultOptions } from "../compiler/options";
+
+// the types that variables are narrowed to by a condition.
+type Narrowing = Map<SymbolData, Typing.Type>;
+
+// a loop whose body is being checked.
+interface LoopInfo {
+	label: string | null;
+	// whether a 'break' exits the loop, so it may end
+	// while its condition is still true.
+	hasBreak: boolean;
+}
+
+// the state of the variables at some point in the code, the types
+// they are narrowed to and the ones that may not have a value yet.
+interface Flow {
+	narrowing: Narrowing;
+	unassigned: Set<SymbolData>;
+}
+
+// the 'var' variables of a body that have not been declared yet.
+interface UndeclaredVars {
+	// the scope of the body, and the number of functions it is nested in.
+	env: Environment;
+	depth: number;
+	declarators: Map<string, AST.VarDeclarator>;
+}
 
 export default class Checker {
 	private readonly ast: AST.Program;
@@ -45,23 +83,70 @@ export default class Checker {
 	// returns the correct type of expression.
 	private functionReturnStack: Typing.Type[] = [];
 
-	// current depth of nested loops.
+	// the loops around the code being checked, innermost last.
 	// used to determine if break/continue statements
-	// are inside loops.
-	private loopDepth = 0;
+	// are inside loops, and which loops they refer to.
+	private loops: LoopInfo[] = [];
+
+	// type of 'this' in the current class member
+	// being checked. For instance members it is the
+	// instance type, for static members the class itself.
+	private thisTypeStack: Typing.Type[] = [];
+	// classes whose bodies are being checked, the innermost
+	// class is used to resolve 'super'.
+	private classStack: ClassType[] = [];
+	// whether we are inside a class constructor,
+	// where calls to 'super(...)' are allowed.
+	private inConstructor = false;
+
+	// variables whose type has been narrowed by a condition, their
+	// narrowed type is the symbol's `currentType`.
+	private narrowedSymbols: Set<SymbolData> = new Set();
+	// variables that are not assigned on every path to the current
+	// point in the code, their `isDefined` is false.
+	private unassignedSymbols: Set<SymbolData> = new Set();
+	// names of the 'var' variables of the bodies being checked,
+	// that have not been declared yet.
+	private undeclaredVars: UndeclaredVars[] = [];
+	// the 'var' variables whose type is being inferred before their declaration.
+	private readonly inferringVars: Set<AST.VarDeclarator> = new Set();
+	// while true, type errors are not reported. Set by `quietType`.
+	private isQuiet = false;
+	private hasQuietError = false;
+
+	// types of the arguments of generic calls, checked
+	// while inferring the call's type arguments.
+	private readonly inferredArgTypes: Map<AST.Expression, Typing.Type> = new Map();
 
 	private reportError: ErrorReportFn;
 	private hasError = false;
 	private errors: AveError[] = [];
+	private readonly options: CompilerOptions;
 
-	constructor(parseData: ParsedData, reportErr?: ErrorReportFn) {
+	constructor(
+		parseData: ParsedData,
+		reportErr?: ErrorReportFn,
+		options: CompilerOptions = defaultOptions
+	) {
 		this.ast = parseData.ast;
 		this.parseData = parseData;
 		this.env = this.rootEnv;
 		this.reportError = reportErr || throwError;
+		this.options = options;
+
+		// the built-in declarations are visible everywhere,
+		// but can be shadowed by the file's own declarations.
+		const prelude = loadPrelude(options.lib);
+		prelude.declarations.forEach(decl => decl.defineIn(this.rootEnv));
+		prelude.types.forEach((type, name) => this.rootEnv.defineType(name, type));
 	}
 
 	public error(message: string, token: Token, errType: ErrorType = ErrorType.TypeError) {
+		if (this.isQuiet) {
+			this.hasQuietError = true;
+			return;
+		}
+
 		const err: AveError = errorFromToken(token, message, this.parseData.fileName, errType);
 		this.hasError = true;
 		this.errors.push(err);
@@ -96,6 +181,28 @@ export default class Checker {
 
 	private isValidAssignment(ta: Typing.Type, tb: Typing.Type, type = TokenType.EQ): boolean {
 		if (type == TokenType.EQ) {
+			// values of a type parameter can be used wherever its constraint can.
+			if (tb instanceof Typing.PlaceHolderType && tb.constraint && ta != tb) {
+				return ta.canAssign(tb) || this.isValidAssignment(ta, tb.constraint);
+			}
+
+			// arrays are compared by the types of their elements.
+			const elementsA = t_Array.typeArgsOf(ta);
+			const elementsB = t_Array.typeArgsOf(tb);
+			if (elementsA && elementsB) {
+				return (
+					elementsB[0] == Typing.t_bottom || this.isValidAssignment(elementsA[0], elementsB[0])
+				);
+			}
+
+			// tuples are compared element by element, and
+			// can be assigned to arrays of a common element type.
+			if (tb instanceof TupleType) {
+				if (elementsA) return tb.elementTypes.every(t => this.isValidAssignment(elementsA[0], t));
+				if (!(ta instanceof TupleType) || ta.length != tb.length) return ta.canAssign(tb);
+				return ta.elementTypes.every((t, i) => this.isValidAssignment(t, tb.elementTypes[i]));
+			}
+
 			if (ta instanceof ObjectType) {
 				if (!(tb instanceof ObjectType)) return false;
 				return checkObjectAssignment(ta, tb, this);
@@ -198,11 +305,17 @@ export default class Checker {
 		});
 
 		let type = Typing.t_void;
+		this.undeclaredVars.push({
+			env: this.env,
+			depth: this.functionReturnStack.length,
+			declarators: varDeclarators(body),
+		});
 
 		for (let stmt of body.statements) {
 			type = this.mergeTypes(type, this.statement(stmt));
 		}
 
+		this.undeclaredVars.pop();
 		this.popScope();
 
 		return type;
@@ -210,6 +323,10 @@ export default class Checker {
 
 	private statement(stmt: AST.Node): Typing.Type {
 		switch (stmt.kind) {
+			case NodeKind.ImportDecl:
+				return this.importDecl(stmt as AST.ImportDecl);
+			case NodeKind.ExportDecl:
+				return this.exportDecl(stmt as AST.ExportDecl);
 			case NodeKind.VarDeclaration:
 				this.checkDeclaration(stmt as AST.VarDeclaration);
 				return Typing.t_void;
@@ -217,12 +334,24 @@ export default class Checker {
 				return this.ifStmt(stmt as AST.IfStmt);
 			case NodeKind.ForStmt:
 				return this.forStmt(stmt as AST.ForStmt);
+			case NodeKind.ForOfStmt:
+				return this.forOfStmt(stmt as AST.ForOfStmt);
+			case NodeKind.ForInStmt:
+				return this.forInStmt(stmt as AST.ForInStmt);
 			case NodeKind.WhileStmt:
 				return this.whileStmt(stmt as AST.WhileStmt);
+			case NodeKind.SwitchStmt:
+				return this.switchStmt(stmt as AST.SwitchStmt);
 			case NodeKind.ReturnStmt:
 				return this.returnStmt(stmt as AST.ReturnStmt);
+			case NodeKind.BreakStmt:
+			case NodeKind.ContinueStmt:
+				return this.jumpStmt(stmt as AST.BreakStmt | AST.ContinueStmt);
 			case NodeKind.RecordDeclaration:
 			case NodeKind.TypeAlias:
+			case NodeKind.EnumDecl:
+			// ambient declarations are hoisted.
+			case NodeKind.AmbientDecl:
 				return Typing.t_void;
 			case NodeKind.ExprStmt:
 				// just run it through the expression
@@ -234,6 +363,8 @@ export default class Checker {
 				return Typing.t_void;
 			case NodeKind.FunctionDecl:
 				return this.functionDeclaration(stmt as AST.FunctionDeclaration);
+			case NodeKind.ClassDecl:
+				return this.classDecl(stmt as AST.ClassDecl);
 			default:
 				return this.expression(stmt as AST.Expression);
 		}
@@ -246,6 +377,38 @@ export default class Checker {
 		return Typing.t_void;
 	}
 
+	private importDecl(stmt: AST.ImportDecl): Typing.Type {
+		// the imported names are hoisted by the type binder.
+		if (!stmt.exports) {
+			this.error(`Cannot find module '${stmt.source}'.`, stmt.path, ErrorType.ReferenceError);
+			return Typing.t_void;
+		}
+
+		for (const name of stmt.names) {
+			if (stmt.exports.has(name.name)) continue;
+			this.error(
+				`Module '${stmt.source}' has no exported member '${name.name}'.`,
+				name.token as Token,
+				ErrorType.ReferenceError
+			);
+		}
+
+		return Typing.t_void;
+	}
+
+	private exportDecl(stmt: AST.ExportDecl): Typing.Type {
+		const type = this.statement(stmt.declaration);
+
+		// the exported values are recorded once their
+		// types have been inferred.
+		for (const name of stmt.names) {
+			const symbol = this.env.find(name);
+			if (symbol) stmt.types.set(name, symbol.dataType);
+		}
+
+		return type;
+	}
+
 	private checkDeclarator(node: AST.VarDeclarator, kind: DeclarationKind) {
 		let type = node.typeInfo.type;
 		let currentType = type;
@@ -264,9 +427,13 @@ export default class Checker {
 		// then infer it's type from that
 
 		if (node.value) {
-			currentType = this.typeOf(node.value);
+			currentType = this.contextualTypeOf(node.value, type);
 			isDefined = true;
 			if (type == Typing.t_infer) type = currentType;
+		} else if (kind == DeclarationKind.Constant) {
+			this.error(`'const' declarations must be initialized.`, node.token as Token);
+			// reads of the constant are not reported again.
+			isDefined = true;
 		} else if (type == Typing.t_infer) {
 			this.error(
 				`'${node.name}' must either be initliazed or type annotated.`,
@@ -287,26 +454,40 @@ export default class Checker {
 			name: node.name,
 			declarationKind: kind,
 			dataType: type,
-			currentType,
+			currentType: type,
 			isDefined,
 		};
 
 		this.env.define(node.name, declaration);
+		if (!isDefined) this.setAssigned(declaration, false);
+		if (kind == DeclarationKind.FunctionScope) {
+			this.undeclaredVars[this.undeclaredVars.length - 1].declarators.delete(node.name);
+		}
 	}
 
 	private ifStmt(stmt: AST.IfStmt): Typing.Type {
-		const _then = stmt.thenBody;
+		this.expression(stmt.condition);
+		const [whenTrue, whenFalse] = this.conditionNarrowing(stmt.condition);
+		const before = this.saveFlow();
 
-		let type: Typing.Type = this.checkMaybeType(this.body(_then));
+		this.applyNarrowing(whenTrue);
+		const thenType = this.body(stmt.thenBody);
+		let type: Typing.Type = this.checkMaybeType(thenType);
+		const afterThen = this.alwaysReturns(thenType) ? null : this.saveFlow();
 
-		// TODO check this.
-		let condType = this.expression(stmt.condition);
+		this.restoreFlow(before);
+		this.applyNarrowing(whenFalse);
 
+		let elseType: Typing.Type = Typing.t_void;
 		if (stmt.elseBody) {
-			let elseType = this.body(stmt.elseBody);
+			elseType = this.body(stmt.elseBody);
 			type = this.mergeTypes(type, elseType);
 		}
 
+		// after the if statement, variables have the types they have at the end
+		// of either branch. Branches that return are not taken into account.
+		const afterElse = this.alwaysReturns(elseType) ? null : this.saveFlow();
+		this.restoreFlow(this.joinFlows(afterThen, afterElse));
 		return type;
 	}
 
@@ -317,6 +498,26 @@ export default class Checker {
 		return this.statement(node);
 	}
 
+	/**
+	 * Returns the type of an expression whose value is assigned to
+	 * a target of type `expected`. Array literals assigned to a
+	 * tuple are typed as tuples instead of arrays.
+	 * @param expr     {AST.Expression} The expression being assigned.
+	 * @param expected {Typing.Type}    Data type of the assignment target.
+	 */
+	private contextualTypeOf(expr: AST.Expression, expected: Typing.Type): Typing.Type {
+		if (expected instanceof TupleType && expr.kind == NodeKind.ArrayExpr) {
+			return this.tupleExpr(expr as AST.ArrayExpr, expected);
+		}
+		if (expr.kind == NodeKind.NewExpr) return this.newExpr(expr as AST.NewExpr, expected);
+
+		const elementType = (t_Array.typeArgsOf(expected) || [])[0];
+		if (elementType instanceof TupleType && expr.kind == NodeKind.ArrayExpr) {
+			return this.tupleArrayExpr(expr as AST.ArrayExpr, elementType);
+		}
+		return this.typeOf(expr);
+	}
+
 	private expression(expr: AST.Expression): Typing.Type {
 		switch (expr.kind) {
 			case NodeKind.Literal:
@@ -335,17 +536,114 @@ export default class Checker {
 			case NodeKind.ArrayExpr:
 				return this.array(expr as AST.ArrayExpr);
 			case NodeKind.CallExpr:
-				return this.callExpr(expr as AST.CallExpr);
+				return this.optionalChain(expr, this.callExpr(expr as AST.CallExpr));
 			case NodeKind.FunctionExpr:
 				return this.funcExpr(expr as AST.FunctionExpr);
 			case NodeKind.ObjectExpr:
 				return this.objectExpr(expr as AST.ObjectExpr);
 			case NodeKind.MemberAcessExpr:
-				return this.memberExpression(expr as AST.MemberAccessExpr);
+				return this.optionalChain(expr, this.memberExpression(expr as AST.MemberAccessExpr));
+			case NodeKind.ThisExpr:
+				return this.thisExpr(expr as AST.ThisExpr);
+			case NodeKind.NewExpr:
+				return this.newExpr(expr as AST.NewExpr);
+			case NodeKind.SuperExpr:
+				return this.superExpr(expr as AST.SuperExpr);
+			case NodeKind.TemplateLiteral:
+				return this.templateLiteral(expr as AST.TemplateLiteral);
+			case NodeKind.CastExpr:
+				return this.castExpr(expr as AST.CastExpr);
+			case NodeKind.TypeTestExpr:
+				return this.typeTestExpr(expr as AST.TypeTestExpr);
+			case NodeKind.SpreadExpr:
+				this.error(
+					"Spread syntax can only be used in calls, arrays and objects.",
+					expr.token as Token
+				);
+				return Typing.t_error;
+			case NodeKind.MatchExpr:
+				return this.matchExpr(expr as AST.MatchExpr);
 		}
 		return Typing.t_error;
 	}
 
+	private castExpr(expr: AST.CastExpr): Typing.Type {
+		const toType = expr.typeInfo.type;
+		const fromType = this.contextualTypeOf(expr.expr, toType);
+
+		if (fromType == Typing.t_error || toType == Typing.t_error) return toType;
+
+		// a value can only be cast to a type that is
+		// either wider, or narrower than its own type.
+		const canCast =
+			fromType == Typing.t_any ||
+			toType == Typing.t_any ||
+			toType.canAssign(fromType) ||
+			fromType.canAssign(toType);
+
+		if (!canCast) {
+			this.error(`Cannot cast type '${fromType}' to type '${toType}'.`, expr.token as Token);
+		}
+
+		return toType;
+	}
+
+	private typeTestExpr(expr: AST.TypeTestExpr): Typing.Type {
+		const type = this.expression(expr.expr);
+		const test = expr.typeInfo.type;
+
+		const canSucceed =
+			type == Typing.t_error ||
+			test == Typing.t_error ||
+			type == Typing.t_any ||
+			test.canAssign(type) ||
+			type.canAssign(test);
+
+		if (!canSucceed) {
+			this.error(`A value of type '${type}' can never be of type '${test}'.`, expr.typeInfo.token);
+		} else if (!this.canTestAtRuntime(test)) {
+			this.error(`Cannot test for type '${test}' at runtime.`, expr.typeInfo.token);
+		}
+
+		return Typing.t_bool;
+	}
+
+	// the types that the generated code can check a value against.
+	private canTestAtRuntime(type: Typing.Type): boolean {
+		if (type instanceof UnionType) return type.types.every(t => this.canTestAtRuntime(t));
+
+		// prettier-ignore
+		switch (type) {
+			case Typing.t_error:
+			case Typing.t_any:
+			case Typing.t_number:
+			case Typing.t_string:
+			case Typing.t_bool:
+			case Typing.t_nil:
+			case Typing.t_undef:
+				return true;
+		}
+
+		const arrayArgs = t_Array.typeArgsOf(type);
+		if (arrayArgs) return this.canTestAtRuntime(arrayArgs[0]);
+		if (type instanceof TupleType) return type.elementTypes.every(t => this.canTestAtRuntime(t));
+
+		return type instanceof FunctionType || type instanceof EnumType || type instanceof ObjectType;
+	}
+
+	private templateLiteral(template: AST.TemplateLiteral): Typing.Type {
+		for (const expr of template.expressions) {
+			const type = this.expression(expr);
+			if (type == Typing.t_void || type == Typing.t_undef) {
+				this.error(
+					`An expression of type '${type}' cannot be interpolated into a string.`,
+					expr.token as Token
+				);
+			}
+		}
+		return Typing.t_string;
+	}
+
 	private literal(token: Token): Typing.Type {
 		switch (token.type) {
 			case TokenType.LITERAL_NUM:
@@ -369,9 +667,32 @@ export default class Checker {
 		const symbolData = this.env.find(name);
 
 		if (symbolData) {
-			// if the data type is a free type,
-			// return t_any instead.
-			return symbolData.dataType;
+			if (!symbolData.isDefined) {
+				this.error(
+					`Variable '${name}' is used before being assigned.`,
+					id.token as Token,
+					ErrorType.ReferenceError
+				);
+			}
+			// the type of a variable may have been narrowed by a condition.
+			return symbolData.currentType;
+		}
+
+		// 'var' variables are hoisted, but have no value before their declaration.
+		const undeclared = this.findUndeclaredVar(name);
+		if (undeclared) {
+			// a function declared before the variable can only be
+			// called after it, when the variable has a value.
+			if (undeclared.depth < this.functionReturnStack.length) {
+				return this.undeclaredVarType(id, undeclared);
+			}
+
+			this.error(
+				`Variable '${name}' is used before its declaration.`,
+				id.token as Token,
+				ErrorType.ReferenceError
+			);
+			return Typing.t_error;
 		}
 
 		this.error(`Cannot find name ${name}.`, id.token as Token, ErrorType.ReferenceError);
@@ -381,9 +702,21 @@ export default class Checker {
 
 	private binaryExpr(expr: AST.BinaryExpr): Typing.Type {
 		const operator = expr.operator.type;
+		if (operator == TokenType.QUESTION_QUESTION) return this.nilCoalesce(expr);
 
 		const lType = this.typeOf(expr.left);
-		const rType = this.typeOf(expr.right);
+
+		// the right side of `a and b` is only evaluated when `a` is true,
+		// and the right side of `a or b` when `a` is false.
+		let rType: Typing.Type;
+		if (operator == TokenType.AND || operator == TokenType.OR) {
+			const [whenTrue, whenFalse] = this.conditionNarrowing(expr.left);
+			rType = this.withNarrowing(operator == TokenType.AND ? whenTrue : whenFalse, () =>
+				this.typeOf(expr.right)
+			);
+		} else {
+			rType = this.typeOf(expr.right);
+		}
 
 		const type = Typing.binaryOp(lType, operator, rType);
 
@@ -408,8 +741,12 @@ export default class Checker {
 
 		if (!this.isValidAssignTarget(left)) return Typing.t_error;
 
-		const lType = this.typeOf(left);
-		const rType = this.typeOf(right);
+		// a variable can be assigned any value of its declared type,
+		// not only values of the type it has been narrowed to.
+		const symbol = left instanceof AST.Identifier ? this.env.find(left.name) : null;
+		const isPlainAssignment = node.operator.type == TokenType.EQ;
+		const lType = symbol && isPlainAssignment ? symbol.dataType : this.typeOf(left);
+		const rType = this.contextualTypeOf(right, lType);
 
 		// if the left or right side is erratic
 		// and error has already been reported
@@ -425,8 +762,13 @@ export default class Checker {
 					  }' on operand types '${rType.toString()}' and '${lType.toString()}'`;
 
 			this.error(message, node.operator);
+		} else if (symbol && isPlainAssignment) {
+			// the variable may no longer have the type it was narrowed to.
+			this.setFlowType(symbol, symbol.dataType);
 		}
 
+		if (symbol && isPlainAssignment) this.setAssigned(symbol, true);
+
 		return rType;
 	}
 
@@ -449,13 +791,44 @@ export default class Checker {
 				}
 				return true;
 			case NodeKind.MemberAcessExpr:
-				// TODO
+				if (AST.isOptionalChain(node as AST.Expression)) {
+					this.error(`Cannot assign to an optional chain.`, node.token as Token);
+					return false;
+				}
+
+				// enums are compiled to frozen objects, their members cannot be assigned.
+				const object = (node as AST.MemberAccessExpr).object;
+				if (object instanceof AST.Identifier && this.isEnumObject(object.name)) {
+					this.error(
+						`Invalid assignment to a member of enum '${object.name}'`,
+						node.token as Token
+					);
+					return false;
+				}
 				return true;
 			default:
 				return false;
 		}
 	}
 
+	// true if `name` refers to the object of an enum, like `Color` in `Color.Red`.
+	private isEnumObject(name: string): boolean {
+		const symbol = this.env.find(name);
+		const type = this.env.findType(name);
+		return !!symbol && type instanceof EnumType && symbol.dataType == type.objectType;
+	}
+
+	// a ?? b
+	private nilCoalesce(expr: AST.BinaryExpr): Typing.Type {
+		const lType = this.expression(expr.left);
+		const rType = this.expression(expr.right);
+
+		if (lType == Typing.t_error || rType == Typing.t_error) return Typing.t_error;
+		if (lType == Typing.t_any) return lType;
+		if (lType == Typing.t_nil || lType == Typing.t_undef) return rType;
+		return unionOf(withoutNil(lType), rType);
+	}
+
 	private unary(expr: AST.PrefixUnaryExpr | AST.PostfixUnaryExpr): Typing.Type {
 		const tOperand = this.typeOf(expr.operand);
 
@@ -476,27 +849,122 @@ export default class Checker {
 	private array(arr: AST.ArrayExpr): Typing.Type {
 		if (arr.elements.length == 0) return t_Array.instantiate([Typing.t_bottom]);
 
-		let type = this.typeOf(arr.elements[0]);
+		const types = arr.elements.map(el => {
+			if (el.kind == NodeKind.SpreadExpr) return this.spreadElementType(el as AST.SpreadExpr);
+			return this.typeOf(el);
+		});
+
+		if (types.indexOf(Typing.t_error) != -1) return Typing.t_error;
 
-		for (let el of arr.elements) {
-			const t = this.typeOf(el);
-			if (t == Typing.t_error) return Typing.t_error;
+		const type = types[0];
+		for (let t of types) {
 			if (t != type) return t_Array.instantiate([Typing.t_any]);
 		}
 
 		return t_Array.instantiate([type]);
 	}
 
+	// an array literal that is expected to hold tuples, like `[["a", 1]]` for `[str, num][]`.
+	private tupleArrayExpr(arr: AST.ArrayExpr, tuple: TupleType): Typing.Type {
+		if (!arr.elements.length || arr.elements.some(el => el.kind != NodeKind.ArrayExpr)) {
+			return this.array(arr);
+		}
+
+		const types = arr.elements.map(el => this.tupleExpr(el as AST.ArrayExpr, tuple));
+		if (types.indexOf(Typing.t_error) != -1) return Typing.t_error;
+
+		const type = types[0];
+		if (types.every(t => this.isValidAssignment(type, t))) return t_Array.instantiate([type]);
+		return t_Array.instantiate([Typing.t_any]);
+	}
+
+	private tupleExpr(arr: AST.ArrayExpr, tuple: TupleType): Typing.Type {
+		// the length of a spread array is only known at runtime.
+		if (arr.elements.some(el => el.kind == NodeKind.SpreadExpr)) return this.array(arr);
+
+		const types = arr.elements.map((el, i) =>
+			this.contextualTypeOf(el, tuple.elementTypes[i] || Typing.t_any)
+		);
+
+		if (types.indexOf(Typing.t_error) != -1) return Typing.t_error;
+
+		if (types.length != tuple.length) {
+			this.error(
+				`Tuple type '${tuple}' expects ${tuple.length} elements, but got ${types.length}.`,
+				arr.token as Token
+			);
+			// the error has been reported, so the
+			// assignment itself need not be reported again.
+			return tuple;
+		}
+
+		return new TupleType(types);
+	}
+
+	// returns the type of the elements that "...expr" expands to.
+	private spreadElementType(spread: AST.SpreadExpr): Typing.Type {
+		const type = this.expression(spread.expr);
+		const elementType = this.elementTypeOf(type);
+
+		if (!elementType) {
+			this.error(
+				`Type '${type}' cannot be spread, it is not iterable.`,
+				spread.expr.token as Token
+			);
+			return Typing.t_error;
+		}
+
+		return elementType;
+	}
+
+	// an optional chain like `a?.b` evaluates to nil if `a` is nil.
+	private optionalChain(expr: AST.Expression, type: Typing.Type): Typing.Type {
+		if (type == Typing.t_error || !AST.isOptionalChain(expr)) return type;
+		return unionOf(type, Typing.t_nil);
+	}
+
+	/**
+	 * Returns the type of an expression that a property is accessed on, or
+	 * is called. If the property is accessed using `?.`, nil is removed from it.
+	 * @param object {AST.Expression} The object or callee.
+	 * @param isOptional {boolean} Whether `?.` is used on the object.
+	 */
+	private chainTarget(object: AST.Expression, isOptional: boolean): Typing.Type {
+		let type: Typing.Type;
+
+		// in `a?.b.c`, `.c` is never evaluated when `a` is nil,
+		// so it is accessed on the type of `a?.b` without the nil.
+		if (object.kind == NodeKind.CallExpr && AST.isOptionalChain(object)) {
+			type = this.callExpr(object as AST.CallExpr);
+		} else if (object.kind == NodeKind.MemberAcessExpr && AST.isOptionalChain(object)) {
+			type = this.memberExpression(object as AST.MemberAccessExpr);
+		} else {
+			type = this.expression(object);
+		}
+
+		return isOptional ? withoutNil(type) : type;
+	}
+
 	private callExpr(expr: AST.CallExpr): Typing.Type {
+		if (expr.callee.kind == NodeKind.SuperExpr) return this.superCall(expr);
+
 		let callee = expr.callee;
-		let type = this.expression(expr.callee);
+		let type = this.chainTarget(expr.callee, expr.isOptional);
 		let args = expr.args;
 
+		// an error has already been reported for the callee.
+		if (type == Typing.t_error) return type;
+
 		if (!(type instanceof FunctionType)) {
 			this.error(`Function does not exist.`, callee.token as Token, ErrorType.ReferenceError);
 			return Typing.t_undef;
 		}
 
+		if (type.isConstructor) {
+			this.error(`A value of type '${type}' can only be called with 'new'.`, callee.token as Token);
+			return Typing.t_error;
+		}
+
 		if (type.returnType == Typing.t_infer) {
 			this.error(
 				`function requires explicit type annotation, or must be defined before use.`,
@@ -505,24 +973,213 @@ export default class Checker {
 			return Typing.t_error;
 		}
 
-		this.verifyArguments(args, (type as FunctionType).params);
+		return this.checkCall(type.signatureFor(args.length), expr.typeArgs, args, expr.operator);
+	}
+
+	/**
+	 * Checks the arguments of a call, or of a 'new' expression, and returns the
+	 * type of the result. A generic function is instantiated with the type
+	 * arguments, which are inferred from the arguments if there are none.
+	 * @param type {FunctionType} The type of the called function.
+	 * @param typeArgs {AST.TypeInfo[]} The explicit type arguments.
+	 * @param args {AST.Expression[]} The arguments.
+	 * @param token {Token} Token at which errors about the arguments are reported.
+	 * @param expected {Typing.Type} The type the result is expected to have, if known.
+	 */
+	private checkCall(
+		type: FunctionType,
+		typeArgs: AST.TypeInfo[],
+		args: AST.Expression[],
+		token: Token,
+		expected?: Typing.Type
+	): Typing.Type {
+		const typeParams = type instanceof GenericFunctionType ? type.typeParams : [];
+		const argCount = typeArgs.length;
+		const requiredCount = typeParams.filter(
+			t => !(t instanceof Typing.PlaceHolderType && t.defaultType)
+		).length;
+
+		if (argCount && (argCount < requiredCount || argCount > typeParams.length)) {
+			const expected =
+				requiredCount == typeParams.length
+					? typeParams.length
+					: `${requiredCount}-${typeParams.length}`;
+			this.error(`Expected ${expected} type arguments, but got ${argCount}.`, typeArgs[0].token);
+			return Typing.t_error;
+		}
+
+		if (type instanceof GenericFunctionType) {
+			const solved = argCount
+				? fillDefaults(
+						typeParams,
+						typeArgs.map(arg => arg.type)
+				  )
+				: this.inferTypeArguments(args, type, expected);
+
+			const violation = unsatisfiedConstraint(typeParams, solved);
+			if (violation) {
+				this.error(violation, argCount ? typeArgs[0].token : token);
+				return Typing.t_error;
+			}
+			type = type.instantiate(solved);
+		}
+
+		this.verifyArguments(args, type.params, token);
 		return type.returnType;
 	}
 
-	private verifyArguments(args: AST.Expression[], params: ParameterTypeInfo[]) {
+	/**
+	 * Solves the type parameters of a generic function from the types of the
+	 * arguments in a call. Parameters that cannot be solved have their default
+	 * type, or `any`. The argument types are saved, so that they are not checked again.
+	 * @param args {AST.Expression[]} The arguments of the call.
+	 * @param fn {GenericFunctionType} The called function.
+	 * @param expected {Typing.Type} The type the result is expected to have. It solves
+	 *                               the parameters that the arguments don't mention.
+	 */
+	private inferTypeArguments(
+		args: AST.Expression[],
+		fn: GenericFunctionType,
+		expected?: Typing.Type
+	): Typing.Type[] {
+		const solutions: Map<Typing.Type, Typing.Type> = new Map();
+
+		fn.params.forEach((param, i) => {
+			const paramArgs = param.isRest ? args.slice(i) : args.slice(i, i + 1);
+			const paramType = param.isRest ? this.elementTypeOf(param.type) : param.type;
+			if (!paramType) return;
+
+			for (const arg of paramArgs) {
+				// spread arguments are checked against the rest parameter later.
+				if (arg.kind == NodeKind.SpreadExpr) continue;
+
+				const argType = this.contextualTypeOf(arg, paramType);
+				this.inferredArgTypes.set(arg, argType);
+				this.unify(paramType, argType, fn.typeParams, solutions);
+			}
+		});
+
+		if (expected) {
+			const fromResult: Map<Typing.Type, Typing.Type> = new Map();
+			this.unify(fn.returnType, expected, fn.typeParams, fromResult);
+			fromResult.forEach((type, param) => {
+				if (!solutions.has(param)) solutions.set(param, type);
+			});
+		}
+
+		const typeArgs: Typing.Type[] = [];
+		fn.typeParams.forEach((param, i) => {
+			const solved = solutions.get(param);
+			const defaultArgs = solved ? [] : fillDefaults(fn.typeParams, typeArgs);
+			typeArgs.push(solved || defaultArgs[i] || Typing.t_any);
+		});
+		return typeArgs;
+	}
+
+	/**
+	 * Matches the structure of a parameter type against the type of
+	 * an argument, to find the types that the type parameters stand for.
+	 * @param paramType {Typing.Type} A type that mentions the type parameters, like `T[]`.
+	 * @param argType {Typing.Type} The type of the argument passed to it, like `num[]`.
+	 * @param typeParams {Typing.Type[]} The type parameters being solved.
+	 * @param solutions {Map} The types found for the type parameters so far.
+	 * @param visited {Set} Object types that are being matched, to stop at recursive types.
+	 */
+	private unify(
+		paramType: Typing.Type,
+		argType: Typing.Type,
+		typeParams: Typing.Type[],
+		solutions: Map<Typing.Type, Typing.Type>,
+		visited: Set<Typing.Type> = new Set()
+	) {
+		if (argType == Typing.t_error || paramType == argType) return;
+
+		if (typeParams.indexOf(paramType) != -1) {
+			// when a parameter is passed different types, the wider type is used.
+			const solved = solutions.get(paramType);
+			if (!solved || (solved != argType && this.isValidAssignment(argType, solved))) {
+				solutions.set(paramType, argType);
+			}
+			return;
+		}
+
+		const unifyEach = (paramTypes: Typing.Type[], argTypes: Typing.Type[]) => {
+			paramTypes.forEach((t, i) => {
+				if (argTypes[i]) this.unify(t, argTypes[i], typeParams, solutions, visited);
+			});
+		};
+
+		const paramOrigin = instanceOrigin(paramType);
+		const argOrigin = instanceOrigin(argType);
+		if (paramOrigin && argOrigin && paramOrigin[0] == argOrigin[0]) {
+			unifyEach(paramOrigin[1], argOrigin[1]);
+			return;
+		}
+
+		// tuples can be passed to array parameters.
+		const elementType = t_Array.typeArgsOf(paramType);
+		if (elementType && argType instanceof TupleType) {
+			argType.elementTypes.forEach(t =>
+				this.unify(elementType[0], t, typeParams, solutions, visited)
+			);
+			return;
+		}
+
+		if (paramType instanceof TupleType && argType instanceof TupleType) {
+			unifyEach(paramType.elementTypes, argType.elementTypes);
+		} else if (paramType instanceof FunctionType && argType instanceof FunctionType) {
+			unifyEach(
+				paramType.params.map(p => p.type),
+				argType.params.map(p => p.type)
+			);
+			this.unify(paramType.returnType, argType.returnType, typeParams, solutions, visited);
+		} else if (paramType instanceof UnionType) {
+			// in `T | nil`, `T` stands for the part of the argument's type that is not nil.
+			const open = paramType.types.filter(t => typeParams.indexOf(t) != -1);
+			const fixed = paramType.types.filter(t => typeParams.indexOf(t) == -1);
+			if (open.length != 1) return;
+
+			const members = argType instanceof UnionType ? argType.types : [argType];
+			const rest = members.filter(t => !fixed.some(f => this.isValidAssignment(f, t)));
+			if (rest.length) this.unify(open[0], unionOf(...rest), typeParams, solutions, visited);
+		} else if (paramType instanceof ObjectType && argType instanceof ObjectType) {
+			// recursive object types are only matched once.
+			if (visited.has(paramType)) return;
+			visited.add(paramType);
+			paramType.properties.forEach((type, name) => {
+				const argMember = argType.getProperty(name);
+				if (argMember) this.unify(type, argMember, typeParams, solutions, visited);
+			});
+		}
+	}
+
+	private verifyArguments(args: AST.Expression[], params: ParameterTypeInfo[], call: Token) {
 		let i = 0;
 		for (; i < params.length; i++) {
+			if (params[i].isRest) {
+				this.verifyRestArguments(args.slice(i), params[i]);
+				return;
+			}
+
+			if (args[i] && args[i].kind == NodeKind.SpreadExpr) {
+				this.error(
+					"A spread argument can only be passed to a rest parameter.",
+					args[i].token as Token
+				);
+				continue;
+			}
+
 			if (!args[i]) {
 				if (params[i].required) {
 					this.error(
 						`Missing argument '${params[i].name}' to function call.`,
-						args[i - 1].token as Token
+						i > 0 ? (args[i - 1].token as Token) : call
 					);
 				}
 				return;
 			}
 
-			let argumentType = this.expression(args[i]);
+			let argumentType = this.argumentType(args[i], params[i].type);
 
 			if (!this.isValidAssignment(params[i].type, argumentType)) {
 				this.error(
@@ -545,38 +1202,147 @@ export default class Checker {
 		}
 	}
 
-	private objectExpr(obj: AST.ObjectExpr): ObjectType {
+	// arguments of generic calls are checked while inferring the
+	// type arguments, their types are not checked a second time.
+	private argumentType(arg: AST.Expression, paramType: Typing.Type): Typing.Type {
+		const inferred = this.inferredArgTypes.get(arg);
+		if (!inferred) return this.contextualTypeOf(arg, paramType);
+
+		this.inferredArgTypes.delete(arg);
+		return inferred;
+	}
+
+	// checks the arguments passed to a rest parameter.
+	private verifyRestArguments(args: AST.Expression[], param: ParameterTypeInfo) {
+		const elementType = this.elementTypeOf(param.type) || Typing.t_any;
+
+		for (const arg of args) {
+			const isSpread = arg.kind == NodeKind.SpreadExpr;
+			const type = isSpread
+				? this.spreadElementType(arg as AST.SpreadExpr)
+				: this.argumentType(arg, elementType);
+
+			if (type != Typing.t_error && !this.isValidAssignment(elementType, type)) {
+				this.error(
+					`cannot assign argument of type '${type}' to rest parameter of type '${param.type}'.`,
+					arg.token as Token
+				);
+			}
+		}
+	}
+
+	private objectExpr(obj: AST.ObjectExpr): Typing.Type {
 		let t_object = new ObjectType("");
+		let isAny = false;
 
 		obj.kvPairs.forEach((val: AST.Expression, key: Token) => {
-			t_object.defineProperty(key.raw, this.expression(val));
+			if (val.kind != NodeKind.SpreadExpr) {
+				t_object.defineProperty(key.raw, this.expression(val));
+				return;
+			}
+
+			// properties of a spread object are copied, and are
+			// overwritten by the properties that come after them.
+			const spreadType = this.expression((val as AST.SpreadExpr).expr);
+			if (spreadType == Typing.t_any) {
+				isAny = true;
+			} else if (spreadType instanceof ObjectType) {
+				this.propertiesOf(spreadType).forEach((type, name) => t_object.defineProperty(name, type));
+			} else if (spreadType != Typing.t_error) {
+				this.error(`Type '${spreadType}' cannot be spread into an object.`, val.token as Token);
+			}
 		});
 
-		return t_object;
+		return isAny ? Typing.t_any : t_object;
 	}
 
-	private memberExpression(expr: AST.MemberAccessExpr) {
-		const lType = this.expression(expr.object);
+	// returns the properties of an object type,
+	// including the ones it inherits.
+	private propertiesOf(type: Typing.Type): Map<string, Typing.Type> {
+		const properties = type.superType ? this.propertiesOf(type.superType) : new Map();
+		type.properties.forEach((t, name) => properties.set(name, t));
+		return properties;
+	}
+
+	private memberExpression(expr: AST.MemberAccessExpr): Typing.Type {
+		const lType = this.chainTarget(expr.object, expr.isOptional);
 		const property = expr.property;
 
 		if (expr.isIndexed) {
-			throw new Error("Cannot index yet.");
+			return this.indexExpr(lType, property);
 		} else if (property instanceof AST.Identifier) {
+			if (lType == Typing.t_any || lType == Typing.t_error) return lType;
+
 			// if property key does not exist on type of
 			// the object, throw an error.
-			if (!lType.hasProperty(property.name))
+			if (!lType.hasProperty(property.name)) {
 				this.error(
 					`property '${property.name}' does not exist on type ${lType}`,
 					property.operator
 				);
+				return Typing.t_error;
+			}
 
 			const expType = lType.getProperty(property.name) as Typing.Type;
+
+			// fields without a type annotation get their type when their class is checked.
+			if (expType == Typing.t_infer) {
+				this.error(
+					`field '${property.name}' requires explicit type annotation, or its class must be declared before use.`,
+					property.operator
+				);
+				return Typing.t_error;
+			}
 			return expType;
 		} else {
 			throw new Error("impossible condition encountered.");
 		}
 	}
 
+	private indexExpr(objectType: Typing.Type, index: AST.Expression): Typing.Type {
+		const indexType = this.expression(index);
+		if (objectType == Typing.t_any || objectType == Typing.t_error) return objectType;
+
+		// arrays and strings can be indexed with numbers.
+		const elementType = this.elementTypeOf(objectType);
+
+		if (!elementType) {
+			this.error(`Cannot index type '${objectType}'.`, index.token as Token);
+			return Typing.t_error;
+		}
+
+		if (!Typing.t_number.canAssign(indexType) && indexType != Typing.t_any) {
+			if (indexType != Typing.t_error) {
+				this.error(
+					`Cannot index type '${objectType}' with type '${indexType}'.`,
+					index.token as Token
+				);
+			}
+			return Typing.t_error;
+		}
+
+		if (objectType instanceof TupleType && index.kind == NodeKind.Literal) {
+			return this.tupleElement(objectType, index);
+		}
+
+		return elementType;
+	}
+
+	// indexing a tuple with a number literal yields the type
+	// of the element at that position.
+	private tupleElement(tuple: TupleType, index: AST.Expression): Typing.Type {
+		const position = Number((index.token as Token).value);
+		if (!tuple.elementTypes[position]) {
+			this.error(
+				`Tuple type '${tuple}' of length ${tuple.length} has no element at index ${position}.`,
+				index.token as Token
+			);
+			return Typing.t_error;
+		}
+
+		return tuple.elementTypes[position];
+	}
+
 	private forStmt(forStmt: AST.ForStmt): Typing.Type {
 		this.assertType(forStmt.start, Typing.t_number, "loop start must be a number.");
 
@@ -586,28 +1352,182 @@ export default class Checker {
 			this.assertType(forStmt.step, Typing.t_number, "loop step must be a number.");
 		}
 
-		let type = this.body(forStmt.body);
+		const [type] = this.loopBody(forStmt);
+		return this.checkMaybeType(type);
+	}
+
+	private forOfStmt(stmt: AST.ForOfStmt): Typing.Type {
+		const iterableType = this.expression(stmt.iterable);
+		let elementType = this.elementTypeOf(iterableType);
+
+		if (!elementType) {
+			this.error(`Type '${iterableType}' is not iterable.`, stmt.iterable.token as Token);
+			elementType = Typing.t_error;
+		}
+
+		const iterator = new HoistedVarDeclaration(stmt.iterator.name, elementType);
+		stmt.body.declarations.push(iterator);
+
+		const [type] = this.loopBody(stmt);
+		return this.checkMaybeType(type);
+	}
+
+	/**
+	 * Returns the type of the elements produced when iterating
+	 * over a value of type `type`, or `null` if it isn't iterable.
+	 * @param type {Typing.Type} The type of the value being iterated.
+	 */
+	private elementTypeOf(type: Typing.Type): Typing.Type | null {
+		if (type == Typing.t_any || type == Typing.t_error) return type;
+		if (type == Typing.t_string) return Typing.t_string;
+		if (type instanceof GenericInstance && type.parent == t_Array) return type.typeArgs[0];
+		if (type instanceof TupleType) return unionOf(...type.elementTypes);
+
+		const typeArgs = t_Array.typeArgsOf(type);
+		if (typeArgs) return typeArgs[0];
+		return null;
+	}
+
+	private forInStmt(stmt: AST.ForInStmt): Typing.Type {
+		const objectType = this.expression(stmt.object);
+
+		if (objectType.isPrimitive && objectType != Typing.t_any && objectType != Typing.t_error) {
+			this.error(
+				`The right side of a 'for..in' loop must be an object, but found type '${objectType}'.`,
+				stmt.object.token as Token
+			);
+		}
+
+		// the keys of an object are always strings.
+		const key = new HoistedVarDeclaration(stmt.iterator.name, Typing.t_string);
+		stmt.body.declarations.push(key);
+
+		const [type] = this.loopBody(stmt);
 		return this.checkMaybeType(type);
 	}
 
 	private whileStmt(stmt: AST.WhileStmt): Typing.Type {
+		this.forgetAssigned(stmt.body);
 		this.expression(stmt.condition);
-		const type = this.body(stmt.body);
+		const [whenTrue, whenFalse] = this.conditionNarrowing(stmt.condition);
+		const [type, hasBreak] = this.loopBody(stmt, whenTrue);
+
+		// the loop ends when its condition is false, unless it is exited by a 'break'.
+		if (!hasBreak) this.applyNarrowing(whenFalse);
 		return this.checkMaybeType(type);
 	}
 
-	private returnStmt(stmt: AST.ReturnStmt): Typing.Type {
-		let type = Typing.t_undef;
-		if (stmt.expr) type = this.expression(stmt.expr);
+	/**
+	 * Checks the body of a loop. The variables that are assigned in the loop
+	 * may have a different type on every iteration, so their narrowed types
+	 * are forgotten, before and after the loop.
+	 * Returns the type of the body, and whether a 'break' exits the loop.
+	 * @param loop The loop.
+	 * @param narrowing Types the variables are narrowed to by the loop's condition.
+	 */
+	private loopBody(loop: AST.LoopStmt, narrowing: Narrowing = new Map()): [Typing.Type, boolean] {
+		const label = loop.label ? loop.label.name : null;
+		if (label && this.loops.some(l => l.label == label)) {
+			this.error(`Duplicate label '${label}'.`, (loop.label as AST.Identifier).token as Token);
+		}
+
+		this.forgetAssigned(loop.body);
+		const before = this.saveFlow();
+
+		const info: LoopInfo = { label, hasBreak: false };
+		this.loops.push(info);
+		this.applyNarrowing(narrowing);
+		const type = this.body(loop.body);
+		this.loops.pop();
+
+		// the body may not run at all.
+		this.restoreFlow(before);
+		this.forgetAssigned(loop.body);
+		return [type, info.hasBreak];
+	}
+
+	private jumpStmt(stmt: AST.BreakStmt | AST.ContinueStmt): Typing.Type {
+		const keyword = stmt.kind == NodeKind.BreakStmt ? "break" : "continue";
+		if (this.loops.length == 0) {
+			this.error(`'${keyword}' can only be used inside a loop.`, stmt.token as Token);
+			return Typing.t_void;
+		}
+
+		let loop = this.loops[this.loops.length - 1];
+		if (stmt.label) {
+			const label = stmt.label.name;
+			const labeled = this.loops.filter(l => l.label == label)[0];
+			if (!labeled) {
+				this.error(`Cannot find a loop with the label '${label}'.`, stmt.label.token as Token);
+				return Typing.t_void;
+			}
+			loop = labeled;
+		}
+
+		if (stmt.kind == NodeKind.BreakStmt) loop.hasBreak = true;
+		return Typing.t_void;
+	}
+
+	private switchStmt(stmt: AST.SwitchStmt): Typing.Type {
+		const discriminantType = this.expression(stmt.discriminant);
+		let type = Typing.t_void;
+		// a switch with a default case always returns if
+		// every case that doesn't fall through returns.
+		const hasDefault = stmt.cases.some(c => c.isDefault);
+		let alwaysReturns = hasDefault;
+		const before = this.saveFlow();
+		// without a default case, the switch may end without running any case.
+		let after = hasDefault ? null : before;
+
+		for (const switchCase of stmt.cases) {
+			this.restoreFlow(before);
+			for (const test of switchCase.tests) {
+				const testType = this.expression(test);
+				if (discriminantType == Typing.t_error || testType == Typing.t_error) continue;
+
+				if (!this.canCompare(discriminantType, testType)) {
+					this.error(
+						`Cannot compare case of type '${testType}' with switch value of type '${discriminantType}'.`,
+						test.token as Token
+					);
+				}
+			}
 
+			const caseType = this.body(switchCase.body);
+			if (!this.alwaysReturns(caseType) && !switchCase.fallsThrough) {
+				alwaysReturns = false;
+				after = this.joinFlows(after, this.saveFlow());
+			}
+			type = this.mergeTypes(type, this.checkMaybeType(caseType));
+		}
+
+		// any of the cases may have run.
+		this.restoreFlow(after || before);
+		this.forgetAssigned(stmt);
+
+		if (alwaysReturns && type instanceof Typing.t__Maybe) return type.type;
+		return type;
+	}
+
+	// a switch case or match pattern can only match a value
+	// if one of their types is assignable to the other.
+	private canCompare(a: Typing.Type, b: Typing.Type): boolean {
+		return a == Typing.t_any || b == Typing.t_any || a.canAssign(b) || b.canAssign(a);
+	}
+
+	private returnStmt(stmt: AST.ReturnStmt): Typing.Type {
 		let rtype = this.functionReturnStack[this.functionReturnStack.length - 1];
 
+		let type = Typing.t_undef;
+		if (stmt.expr) type = this.contextualTypeOf(stmt.expr, rtype);
+
 		if (!rtype) {
 			this.error(`return statement outside function.`, stmt.token as Token, ErrorType.SyntaxError);
 			return type;
 		}
 
-		if (rtype == Typing.t_infer) return type;
+		// an error has already been reported for the returned value.
+		if (rtype == Typing.t_infer || type == Typing.t_error) return type;
 
 		if (!this.isValidAssignment(rtype, type, TokenType.EQ))
 			this.error(
@@ -619,10 +1539,542 @@ export default class Checker {
 	}
 
 	private functionDeclaration(func: AST.FunctionDeclaration): Typing.Type {
-		return this.funcExpr(func.lambda);
+		const type = this.funcExpr(func.lambda);
+
+		// the hoisted declaration was defined before the
+		// return type could be inferred, so we update it here.
+		const symbol = this.env.find(func.name);
+		if (symbol) symbol.dataType = symbol.currentType = type;
+
+		return Typing.t_void;
+	}
+
+	private classDecl(decl: AST.ClassDecl): Typing.Type {
+		// the binder failed to create a type for this class,
+		// an error has already been reported.
+		if (!decl.type) return Typing.t_void;
+		const classType = decl.type;
+		this.classStack.push(classType);
+
+		for (const prop of decl.properties) {
+			const type = this.classProperty(prop, classType);
+			if (prop.isStatic) classType.defineStaticMember(prop.name.raw, type);
+			else classType.defineInstanceMember(prop.name.raw, type);
+			this.checkOverride(prop.name, type, classType, prop.isStatic);
+		}
+
+		if (decl.ctor) {
+			const isDerived = classType.baseClass != null;
+			if (isDerived && !decl.ctor.body.statements.some(AST.isSuperCall)) {
+				this.error("Derived class constructors must call 'super'.", decl.ctor.token as Token);
+			}
+
+			this.thisTypeStack.push(classType.instanceType);
+			this.inConstructor = true;
+			this.funcExpr(decl.ctor);
+			this.inConstructor = false;
+			this.thisTypeStack.pop();
+		}
+
+		for (const method of decl.methods) {
+			this.thisTypeStack.push(method.isStatic ? classType : classType.instanceType);
+			// update the member with the inferred return type.
+			const type = this.funcExpr(method.lambda);
+			this.thisTypeStack.pop();
+
+			if (method.isStatic) classType.defineStaticMember(method.name.raw, type);
+			else classType.defineInstanceMember(method.name.raw, type);
+			this.checkOverride(method.name, type, classType, method.isStatic);
+		}
+
+		this.classStack.pop();
+		return Typing.t_void;
+	}
+
+	/**
+	 * Reports an error if a class member overrides a member of the base class
+	 * with an incompatible type.
+	 * @param name      Name of the class member.
+	 * @param type      Type of the member in the derived class.
+	 * @param classType The derived class.
+	 * @param isStatic  Whether the member is static.
+	 */
+	private checkOverride(name: Token, type: Typing.Type, classType: ClassType, isStatic: boolean) {
+		const base = classType.baseClass;
+		if (!base || type == Typing.t_error) return;
+
+		const overridden = (isStatic ? base : base.instanceType).getProperty(name.raw);
+		if (!overridden || this.isValidAssignment(overridden, type)) return;
+
+		this.error(
+			`'${name.raw}' of type '${type}' in class '${classType.name}' is not compatible with '${overridden}' in base class '${base.name}'.`,
+			name
+		);
+	}
+
+	private classProperty(prop: AST.ClassProperty, classType: ClassType): Typing.Type {
+		const name = prop.name.raw;
+		let type = prop.typeInfo.type;
+
+		if (!prop.value) {
+			if (type == Typing.t_infer) {
+				this.error(`'${name}' must either be initialized or type annotated.`, prop.name);
+				return Typing.t_error;
+			}
+			return type;
+		}
+
+		this.thisTypeStack.push(prop.isStatic ? classType : classType.instanceType);
+		const valueType = this.contextualTypeOf(prop.value, type);
+		this.thisTypeStack.pop();
+
+		if (type == Typing.t_infer) {
+			prop.typeInfo.type = valueType;
+			return valueType;
+		}
+
+		if (!this.isValidAssignment(type, valueType)) {
+			this.error(
+				`cannot intialize '${name}' of type '${type.toString()}' with type '${valueType.toString()}'`,
+				prop.name
+			);
+		}
+
+		return type;
+	}
+
+	private thisExpr(expr: AST.ThisExpr): Typing.Type {
+		const type = this.thisTypeStack[this.thisTypeStack.length - 1];
+		if (!type) {
+			this.error(
+				"'this' cannot be used outside of a class body.",
+				expr.token as Token,
+				ErrorType.SyntaxError
+			);
+			return Typing.t_error;
+		}
+		return type;
+	}
+
+	private currentBaseClass(token: Token): ClassType | null {
+		const classType = this.classStack[this.classStack.length - 1];
+		if (!(classType && classType.baseClass)) {
+			this.error("'super' can only be used inside a derived class.", token, ErrorType.SyntaxError);
+			return null;
+		}
+		return classType.baseClass;
+	}
+
+	private superExpr(expr: AST.SuperExpr): Typing.Type {
+		const base = this.currentBaseClass(expr.token as Token);
+		if (!base) return Typing.t_error;
+
+		// in static methods 'super' refers to the base class itself.
+		const thisType = this.thisTypeStack[this.thisTypeStack.length - 1];
+		return thisType instanceof ClassType ? base : base.instanceType;
+	}
+
+	private superCall(expr: AST.CallExpr): Typing.Type {
+		const token = expr.callee.token as Token;
+		const base = this.currentBaseClass(token);
+		if (!base) return Typing.t_error;
+
+		if (!this.inConstructor) {
+			this.error("'super' can only be called inside a constructor.", token, ErrorType.SyntaxError);
+			return Typing.t_error;
+		}
+
+		this.verifyArguments(expr.args, base.ctor.params, expr.operator);
+		return Typing.t_undef;
+	}
+
+	private matchExpr(expr: AST.MatchExpr): Typing.Type {
+		const subjectType = this.expression(expr.subject);
+		const armTypes: Typing.Type[] = [];
+		// types that are fully handled by the arms.
+		const covered: Typing.Type[] = [];
+		let hasDefault = false;
+
+		for (const arm of expr.arms) {
+			let narrowed = subjectType;
+
+			if (arm.pattern) {
+				const patternType = this.matchPattern(arm.pattern, subjectType);
+				narrowed = this.narrow(subjectType, patternType);
+				// only type patterns and 'nil' cover every value of a type.
+				if (arm.pattern instanceof AST.TypeInfo || patternType == Typing.t_nil) {
+					covered.push(patternType);
+				}
+			} else {
+				hasDefault = true;
+			}
+
+			armTypes.push(this.matchArmBody(arm, expr.subject, narrowed));
+		}
+
+		if (!hasDefault && subjectType != Typing.t_error) {
+			const members = subjectType instanceof UnionType ? subjectType.types : [subjectType];
+			for (const member of members) {
+				if (covered.some(t => t.canAssign(member))) continue;
+				this.error(
+					`Match is not exhaustive, no arm matches type '${member}'.`,
+					expr.token as Token
+				);
+				break;
+			}
+		}
+
+		if (armTypes.indexOf(Typing.t_error) != -1) return Typing.t_error;
+		return unionOf(...armTypes);
+	}
+
+	// checks a match arm's pattern, and returns the type it tests for.
+	private matchPattern(pattern: AST.Expression | AST.TypeInfo, subjectType: Typing.Type) {
+		if (pattern instanceof AST.TypeInfo) {
+			const type = pattern.type;
+			const canMatch =
+				subjectType == Typing.t_error || type.canAssign(subjectType) || subjectType.canAssign(type);
+
+			if (type != Typing.t_error && !canMatch) {
+				this.error(
+					`Pattern of type '${type}' can never match a value of type '${subjectType}'.`,
+					pattern.token
+				);
+			} else if (!this.canTestAtRuntime(type)) {
+				this.error(`Cannot test for type '${type}' at runtime.`, pattern.token);
+			}
+			return type;
+		}
+
+		const type = this.expression(pattern);
+		if (
+			subjectType != Typing.t_error &&
+			type != Typing.t_error &&
+			!this.canCompare(subjectType, type)
+		) {
+			this.error(
+				`Cannot compare pattern of type '${type}' with match value of type '${subjectType}'.`,
+				pattern.token as Token
+			);
+		}
+		return type;
+	}
+
+	/**
+	 * Returns the type of a value of type `type` after it has
+	 * been tested to be of the type `test`.
+	 * @param type The type of the value.
+	 * @param test The type tested against.
+	 */
+	private narrow(type: Typing.Type, test: Typing.Type): Typing.Type {
+		if (type instanceof UnionType) {
+			const members = type.types.filter(t => test.canAssign(t));
+			if (members.length) return unionOf(...members);
+		}
+
+		if (type == Typing.t_any || !test.canAssign(type)) return test;
+		return type;
+	}
+
+	// the subject has the narrowed type inside the body of the arm.
+	private matchArmBody(arm: AST.MatchArm, subject: AST.Expression, narrowed: Typing.Type) {
+		const symbol = this.narrowableSymbol(subject);
+		if (!symbol) return this.expression(arm.body);
+		return this.withNarrowing(new Map([[symbol, narrowed]]), () => this.expression(arm.body));
+	}
+
+	// flow analysis
+
+	/**
+	 * Returns the types that variables are narrowed to when `cond` is true,
+	 * and when it is false. Variables are narrowed by nil checks like `x != nil`,
+	 * type tests like `x is num`, and combinations of them with `and`, `or` and `!`.
+	 * @param cond The condition.
+	 */
+	private conditionNarrowing(cond: AST.Expression): [Narrowing, Narrowing] {
+		switch (cond.kind) {
+			case NodeKind.GroupingExpr:
+				return this.conditionNarrowing((cond as AST.GroupExpr).expr);
+			case NodeKind.PrefixUnaryExpr: {
+				const { operator, operand } = cond as AST.PrefixUnaryExpr;
+				if (operator.type != TokenType.BANG) break;
+				const [whenTrue, whenFalse] = this.conditionNarrowing(operand);
+				return [whenFalse, whenTrue];
+			}
+			case NodeKind.Identifier: {
+				// nil and undefined are falsy.
+				const symbol = this.narrowableSymbol(cond);
+				if (!symbol) break;
+				return [new Map([[symbol, withoutNil(symbol.currentType)]]), new Map()];
+			}
+			case NodeKind.TypeTestExpr: {
+				const test = cond as AST.TypeTestExpr;
+				const symbol = this.narrowableSymbol(test.expr);
+				if (!symbol) break;
+				const type = symbol.currentType;
+				return [
+					new Map([[symbol, this.narrow(type, test.typeInfo.type)]]),
+					new Map([[symbol, this.exclude(type, test.typeInfo.type)]]),
+				];
+			}
+			case NodeKind.BinaryExpr:
+				return this.binaryNarrowing(cond as AST.BinaryExpr);
+		}
+
+		return [new Map(), new Map()];
+	}
+
+	private binaryNarrowing(cond: AST.BinaryExpr): [Narrowing, Narrowing] {
+		const operator = cond.operator.type;
+
+		if (operator == TokenType.AND || operator == TokenType.OR) {
+			const [leftTrue, leftFalse] = this.conditionNarrowing(cond.left);
+			const isAnd = operator == TokenType.AND;
+			// the right side is narrowed by the left side.
+			const leftNarrowing = isAnd ? leftTrue : leftFalse;
+			const [rightTrue, rightFalse] = this.withNarrowing(leftNarrowing, () =>
+				this.conditionNarrowing(cond.right)
+			);
+
+			if (isAnd) {
+				return [
+					combine(leftTrue, rightTrue),
+					this.joinNarrowings(leftFalse, combine(leftTrue, rightFalse)),
+				];
+			}
+
+			return [
+				this.joinNarrowings(leftTrue, combine(leftFalse, rightTrue)),
+				combine(leftFalse, rightFalse),
+			];
+		}
+
+		// `x == nil` and `x != nil` (`nil` may be on either side).
+		if (operator != TokenType.EQ_EQ && operator != TokenType.BANG_EQ) return [new Map(), new Map()];
+
+		const isNil = (e: AST.Expression) => (e.token as Token).type == TokenType.NIL;
+		const value = isNil(cond.right) ? cond.left : isNil(cond.left) ? cond.right : null;
+		const symbol = value && this.narrowableSymbol(value);
+		if (!symbol) return [new Map(), new Map()];
+
+		// `==` compares loosely, nil is equal to undefined.
+		const type = symbol.currentType;
+		const nilTypes = type instanceof UnionType ? type.types.filter(isNilType) : [];
+		const whenNil: Narrowing = new Map();
+		if (nilTypes.length) whenNil.set(symbol, unionOf(...nilTypes));
+		const whenNotNil: Narrowing = new Map([[symbol, withoutNil(type)]]);
+
+		return operator == TokenType.EQ_EQ ? [whenNil, whenNotNil] : [whenNotNil, whenNil];
+	}
+
+	// returns the variable that an expression refers to, if its type can be narrowed.
+	private narrowableSymbol(expr: AST.Expression): SymbolData | null {
+		if (!(expr instanceof AST.Identifier)) return null;
+		return this.env.find(expr.name);
+	}
+
+	/**
+	 * Returns the type of a value of type `type`, after a test
+	 * has shown that it is not of the type `test`.
+	 * @param type The type of the value.
+	 * @param test The type tested against.
+	 */
+	private exclude(type: Typing.Type, test: Typing.Type): Typing.Type {
+		if (!(type instanceof UnionType)) return type;
+		const members = type.types.filter(t => !test.canAssign(t));
+		return members.length ? unionOf(...members) : type;
+	}
+
+	private setFlowType(symbol: SymbolData, type: Typing.Type) {
+		symbol.currentType = type;
+		if (type == symbol.dataType) this.narrowedSymbols.delete(symbol);
+		else this.narrowedSymbols.add(symbol);
+	}
+
+	private applyNarrowing(narrowing: Narrowing) {
+		narrowing.forEach((type, symbol) => this.setFlowType(symbol, type));
+	}
+
+	private findUndeclaredVar(name: string): UndeclaredVars | undefined {
+		for (let i = this.undeclaredVars.length - 1; i >= 0; i--) {
+			if (this.undeclaredVars[i].declarators.has(name)) return this.undeclaredVars[i];
+		}
+	}
+
+	/**
+	 * Returns the type of a 'var' variable that is read inside a function
+	 * before the variable's declaration has been checked. The type is the
+	 * variable's annotation, or the type of its value in the variable's scope.
+	 * @param id The identifier that reads the variable.
+	 * @param undeclared The 'var' variables of the body that declares it.
+	 */
+	private undeclaredVarType(id: AST.Identifier, undeclared: UndeclaredVars): Typing.Type {
+		const declarator = undeclared.declarators.get(id.name) as AST.VarDeclarator;
+		if (declarator.typeInfo.type != Typing.t_infer) return declarator.typeInfo.type;
+
+		// the value is checked again with the declaration, its errors are reported then.
+		let type: Typing.Type = Typing.t_error;
+		if (declarator.value && !this.inferringVars.has(declarator)) {
+			const value = declarator.value;
+			const env = this.env;
+			this.env = undeclared.env;
+			this.inferringVars.add(declarator);
+			type = this.quietType(() => this.expression(value));
+			this.inferringVars.delete(declarator);
+			this.env = env;
+		}
+
+		if (type == Typing.t_error) {
+			this.error(
+				`Variable '${id.name}' must be type annotated to be used before its declaration.`,
+				id.token as Token
+			);
+		}
+		return type;
+	}
+
+	// returns the type of some code without reporting its errors,
+	// or 't_error' if it has any.
+	private quietType(check: () => Typing.Type): Typing.Type {
+		const wasQuiet = this.isQuiet;
+		const hadQuietError = this.hasQuietError;
+		const flow = this.saveFlow();
+		this.isQuiet = true;
+		this.hasQuietError = false;
+
+		let type = check();
+		if (this.hasQuietError) type = Typing.t_error;
+
+		this.restoreFlow(flow);
+		this.isQuiet = wasQuiet;
+		this.hasQuietError = hadQuietError;
+		return type;
+	}
+
+	private setAssigned(symbol: SymbolData, isDefined: boolean) {
+		symbol.isDefined = isDefined;
+		if (isDefined) this.unassignedSymbols.delete(symbol);
+		else this.unassignedSymbols.add(symbol);
+	}
+
+	// returns the state of all variables, so it can be restored later.
+	private saveFlow(): Flow {
+		const narrowing: Narrowing = new Map();
+		this.narrowedSymbols.forEach(symbol => narrowing.set(symbol, symbol.currentType));
+		const unassigned: Set<SymbolData> = new Set();
+		this.unassignedSymbols.forEach(symbol => unassigned.add(symbol));
+		return { narrowing, unassigned };
+	}
+
+	private restoreFlow(saved: Flow) {
+		this.narrowedSymbols.forEach(symbol => (symbol.currentType = symbol.dataType));
+		this.narrowedSymbols = new Set();
+		this.applyNarrowing(saved.narrowing);
+
+		this.unassignedSymbols.forEach(symbol => (symbol.isDefined = true));
+		this.unassignedSymbols = new Set();
+		saved.unassigned.forEach(symbol => this.setAssigned(symbol, false));
+	}
+
+	/**
+	 * Returns the state of variables after two branches of code meet. A variable
+	 * has a value only if it is assigned in both branches. A branch that never
+	 * reaches the end (null) does not affect the state.
+	 * @param a The state at the end of one branch.
+	 * @param b The state at the end of the other branch.
+	 */
+	private joinFlows(a: Flow | null, b: Flow | null): Flow {
+		if (!a || !b) return a || b || { narrowing: new Map(), unassigned: new Set() };
+
+		const unassigned: Set<SymbolData> = new Set();
+		a.unassigned.forEach(symbol => unassigned.add(symbol));
+		b.unassigned.forEach(symbol => unassigned.add(symbol));
+		return { narrowing: this.joinNarrowings(a.narrowing, b.narrowing), unassigned };
+	}
+
+	/**
+	 * Returns the types of variables after two branches of code meet. A variable
+	 * stays narrowed only if it is narrowed in both branches.
+	 * @param a The narrowed types at the end of one branch.
+	 * @param b The narrowed types at the end of the other branch.
+	 */
+	private joinNarrowings(a: Narrowing, b: Narrowing): Narrowing {
+		const joined: Narrowing = new Map();
+		a.forEach((type, symbol) => {
+			const other = b.get(symbol);
+			if (!other) return;
+			const union = unionOf(type, other);
+			// a variable that can have any value of its type again is not narrowed.
+			if (!union.canAssign(symbol.dataType)) joined.set(symbol, union);
+		});
+		return joined;
+	}
+
+	// checks some code with the variables narrowed, and restores their state after.
+	private withNarrowing<T>(narrowing: Narrowing, check: () => T): T {
+		if (narrowing.size == 0) return check();
+
+		const saved = this.saveFlow();
+		this.applyNarrowing(narrowing);
+		const result = check();
+		this.restoreFlow(saved);
+		return result;
+	}
+
+	// the variables assigned in `node` lose their narrowed types.
+	private forgetAssigned(node: AST.Node) {
+		AST.assignedNames(node).forEach(name => {
+			const symbol = this.env.find(name);
+			if (symbol) this.setFlowType(symbol, symbol.dataType);
+		});
+	}
+
+	// true if a body of code that has the type `type` returns on every path.
+	private alwaysReturns(type: Typing.Type): boolean {
+		return type != Typing.t_void && !(type instanceof Typing.t__Maybe);
+	}
+
+	private newExpr(expr: AST.NewExpr, expected?: Typing.Type): Typing.Type {
+		const type = this.expression(expr.callee);
+
+		if (type == Typing.t_any || type == Typing.t_error) return type;
+
+		// declared constructors, like the ones of `Map` and `Set`, and
+		// structs with a construct signature, like `PromiseConstructor`.
+		const ctor = type instanceof ObjectType ? type.constructorType : type;
+		if (ctor instanceof FunctionType && ctor.isConstructor) {
+			const signature = ctor.signatureFor(expr.args.length);
+			return this.checkCall(signature, expr.typeArgs, expr.args, expr.token as Token, expected);
+		}
+
+		if (!(type instanceof ClassType)) {
+			this.error(
+				`Cannot use 'new' with an expression of type '${type}'.`,
+				expr.callee.token as Token
+			);
+			return Typing.t_error;
+		}
+
+		return this.checkCall(type.ctor, expr.typeArgs, expr.args, expr.token as Token);
 	}
 
 	private funcExpr(func: AST.FunctionExpr) {
+		// a function may be called after the variables around it are assigned
+		// again, so inside it only constants keep their narrowed types.
+		const outerFlow = this.saveFlow();
+		this.narrowedSymbols.forEach(symbol => {
+			if (symbol.declarationKind != DeclarationKind.Constant) {
+				this.setFlowType(symbol, symbol.dataType);
+			}
+		});
+		// for the same reason, the variables around it may have been assigned.
+		this.unassignedSymbols.forEach(symbol => (symbol.isDefined = true));
+		this.unassignedSymbols = new Set();
+
+		// 'break' and 'continue' cannot jump out of a function.
+		const outerLoops = this.loops;
+		this.loops = [];
+
 		this.verifyFunctionParams(func.params);
 
 		this.functionReturnStack.push(func.returnTypeInfo.type);
@@ -635,6 +2087,7 @@ export default class Checker {
 				name: param.name,
 				type: param.typeInfo.type,
 				required: !!param.required,
+				isRest: param.isRest,
 			});
 		});
 
@@ -650,24 +2103,43 @@ export default class Checker {
 
 		if (annotatedType == Typing.t_infer) func.returnTypeInfo.type = returnType;
 
-		if (!this.isValidAssignment(func.returnTypeInfo.type, returnType))
+		const isErratic = returnType == Typing.t_error;
+		if (!isErratic && !this.isValidAssignment(func.returnTypeInfo.type, returnType))
 			this.error(
 				`Function's type annotation is '${func.returnTypeInfo.type}' but return type is ${returnType}.`,
 				func.token as Token
 			);
 
 		this.functionReturnStack.pop();
+		this.loops = outerLoops;
+		this.restoreFlow(outerFlow);
+		this.forgetAssigned(func.body);
+
+		if (func.isGeneric) return new GenericFunctionType(paramTypeInfo, returnType, func.typeParams);
 		return new FunctionType("", paramTypeInfo, returnType);
 	}
 
 	// TODO handle optional parameters
 	private verifyFunctionParams(params: AST.FunctionParam[]) {
 		for (let i = 0; i < params.length; i++) {
+			const type = params[i].typeInfo.type;
+			// parameters without an annotation have the type info of their name.
+			if (this.options.noImplicitAny && params[i].typeInfo.token == params[i].token) {
+				this.error(
+					`Parameter '${params[i].name}' implicitly has an '${type}' type.`,
+					params[i].token
+				);
+			}
+
+			if (params[i].isRest && (!this.elementTypeOf(type) || type == Typing.t_string)) {
+				this.error(`A rest parameter must be of an array type.`, params[i].token);
+			}
+
 			// default value must be assignable to annotated type.
 			if (params[i].defaultValue) {
-				let type = this.expression(params[i].defaultValue as AST.Expression);
-
 				let annotatedType = params[i].typeInfo.type;
+				let type = this.contextualTypeOf(params[i].defaultValue as AST.Expression, annotatedType);
+
 				if (!this.isValidAssignment(annotatedType, type)) {
 					this.error(
 						`Cannot assign value of type '${type.toString()}' to paramter of type '${params[
@@ -682,3 +2154,27 @@ export default class Checker {
 		return true;
 	}
 }
+
+// combines two narrowings, the types in `b` are used where both narrow a variable.
+function combine(a: Narrowing, b: Narrowing): Narrowing {
+	const combined: Narrowing = new Map();
+	a.forEach((type, symbol) => combined.set(symbol, type));
+	b.forEach((type, symbol) => combined.set(symbol, type));
+	return combined;
+}
+
+function isNilType(type: Typing.Type): boolean {
+	return type == Typing.t_nil || type == Typing.t_undef;
+}
+
+// the 'var' variables declared in a body, by name.
+function varDeclarators(body: AST.Body): Map<string, AST.VarDeclarator> {
+	const declarators: Map<string, AST.VarDeclarator> = new Map();
+	for (const stmt of body.statements) {
+		const decl = stmt.kind == NodeKind.ExportDecl ? (stmt as AST.ExportDecl).declaration : stmt;
+		if (!(decl instanceof AST.VarDeclaration)) continue;
+		if (decl.declarationType != DeclarationKind.FunctionScope) continue;
+		decl.declarators.forEach(d => declarators.set(d.name, d));
+	}
+	return declarators;
+}
@@ -0,0 +1,76 @@
+import Lexer from "../lexer/lexer";
+import AveParser from "../parser/aveparser";
+import Binder from "./type-binder";
+import Declaration from "../type/declaration";
+import GenericType, { t_Array } from "../type/generic-type";
+import * as Typing from "../type/types";
+import libraries, { core } from "../compiler/declarations/prelude";
+
+export interface Prelude {
+	// global names like `console` and `Math`.
+	declarations: Declaration[];
+	// types that can be used in type annotations, like `Map<K, V>`.
+	types: Map<string, Typing.Type>;
+}
+
+// the types whose members are declared by structs in the prelude.
+const builtinMembers: Map<string, Typing.Type> = new Map([
+	["String", Typing.t_string],
+	["Number", Typing.t_number],
+	["Boolean", Typing.t_bool],
+]);
+
+// the libraries that have been loaded, by name.
+const loaded: Map<string, Prelude> = new Map();
+
+/**
+ * Returns the built-in declarations of the core library and the libraries
+ * in `libs`. Every library is parsed and bound the first time it is used.
+ * @param libs {string[]} names of the libraries, like "console" or "es5".
+ */
+export default function loadPrelude(libs: string[]): Prelude {
+	const prelude: Prelude = { declarations: [], types: new Map() };
+
+	for (const name of ["core", ...libs]) {
+		const lib = loadLibrary(name);
+		prelude.declarations.push(...lib.declarations);
+		lib.types.forEach((type, typeName) => prelude.types.set(typeName, type));
+	}
+
+	return prelude;
+}
+
+function loadLibrary(name: string): Prelude {
+	const cached = loaded.get(name);
+	if (cached) return cached;
+
+	const source = name == "core" ? core : libraries.get(name);
+	if (source == undefined) throw new Error(`unknown library '${name}'.`);
+
+	// the library is cached before it is bound, so that the binder
+	// doesn't try to load it again while looking up type names.
+	const lib: Prelude = { declarations: [], types: new Map() };
+	loaded.set(name, lib);
+
+	const parseData = new AveParser(new Lexer(`<prelude:${name}>`, source).lex()).parse();
+	// the libraries only use their own types, and the core types.
+	new Binder(parseData, undefined, []).bind();
+	if (parseData.ast.hasError) throw new Error(`failed to load the library '${name}'.`);
+
+	const body = parseData.ast.body;
+	lib.declarations.push(...body.declarations);
+
+	body.types.forEach((type, typeName) => {
+		const builtin = builtinMembers.get(typeName);
+
+		if (typeName == t_Array.name) {
+			t_Array.defineMembers(type as GenericType);
+		} else if (builtin) {
+			type.properties.forEach((member, key) => builtin.defineProperty(key, member));
+		} else {
+			lib.types.set(typeName, type);
+		}
+	});
+
+	return lib;
+}
@@ -6,10 +6,25 @@ import * as AST from "../parser/ast/ast";
 import NKind = require("../parser/ast/nodekind");
 import { ParsedData } from "../parser/parser";
 import FunctionType, { ParameterTypeInfo } from "../type/function-type";
-import GenericType, { GenericInstance, t_Array } from "../type/generic-type";
+import GenericType, {
+	fillDefaults,
+	GenericFunctionType,
+	GenericInstance,
+	t_Array,
+	unsatisfiedConstraint,
+} from "../type/generic-type";
 import ObjectType, { checkObjectAssignment } from "../type/object-type";
 import * as Typing from "../type/types";
 import UnionType from "../type/union-type";
+import ClassType from "../type/class-type";
+import EnumType from "../type/enum-type";
+import TupleType from "../type/tuple-type";
+import { FuncDeclaration, ImportDeclaration } from "../type/declaration";
+import loadPrelude, { Prelude } from "./prelude";
+import { defaultOptions } from "../compiler/options";
+
+// types that can be referred to from anywhere, without being declared.
+const builtinTypes: Map<string, Typing.Type> = new Map([[t_Array.name, t_Array as Typing.Type]]);
 
 export default class Binder {
 	private readonly ast: AST.Program;
@@ -17,11 +32,16 @@ export default class Binder {
 	private parsedData: ParsedData;
 	private blockStack: AST.Body[] = [];
 	private currentGeneric: GenericType | null = null;
+	// names of the built-in libraries whose types can be used.
+	private readonly libs: string[];
+	// loaded when a name is not declared in the file.
+	private prelude: Prelude | null = null;
 
-	constructor(parsed: ParsedData, reportErr?: ErrorReportFn) {
+	constructor(parsed: ParsedData, reportErr?: ErrorReportFn, libs: string[] = defaultOptions.lib) {
 		this.ast = parsed.ast;
 		this.parsedData = parsed;
 		this.reportError = reportErr || throwError;
+		this.libs = libs;
 	}
 
 	private error(message: string, token: Token) {
@@ -53,7 +73,7 @@ export default class Binder {
 		return this.blockStack[this.blockStack.length - 1];
 	}
 
-	private findTypeNode(name: string): AST.TypeDef | AST.StructDecl | null {
+	private findTypeNode(name: string): AST.TypeNode | null {
 		for (let i = this.blockStack.length - 1; i >= 0; i--) {
 			const astNode = this.blockStack[i].findTypeNode(name);
 			if (astNode != null) return astNode;
@@ -66,7 +86,11 @@ export default class Binder {
 			const type = this.blockStack[i].findType(name);
 			if (type != null && type != Typing.t_error) return type;
 		}
-		return null;
+		const builtin = builtinTypes.get(name);
+		if (builtin) return builtin;
+
+		if (!this.prelude) this.prelude = loadPrelude(this.libs);
+		return this.prelude.types.get(name) || null;
 	}
 
 	private addType(name: string, type: Typing.Type) {
@@ -98,6 +122,8 @@ export default class Binder {
 			return Typing.t_error;
 		}
 		if (type instanceof FunctionType) return this.resolveFnType(type, token);
+		if (type instanceof TupleType) return this.resolveTupleType(type, token);
+		if (t_Array.typeArgsOf(type)) return this.resolveArrayType(type, token);
 		if (type instanceof ObjectType) return this.resolveObjectType(type, token);
 
 		// if this type has already been visited and defined
@@ -105,8 +131,19 @@ export default class Binder {
 		const savedType = this.findType(type.tag);
 		if (savedType != null) {
 			if (savedType instanceof GenericType) {
+				// a generic type whose parameters all have defaults can be used without arguments.
+				if (savedType.requiredParamCount == 0) {
+					const args = savedType.withDefaults([]);
+					const violation = unsatisfiedConstraint(savedType.typeParams, args);
+					if (!violation) return savedType.instantiate(args);
+					this.errOrWarn(violation, token);
+					return Typing.t_error;
+				}
 				this.errOrWarn(`${savedType} expects type arguments but none were provided.`, token);
 			}
+			// in type annotations, a class name
+			// refers to the type of it's instances.
+			if (savedType instanceof ClassType) return savedType.instanceType;
 			return savedType;
 		}
 
@@ -120,7 +157,9 @@ export default class Binder {
 			return Typing.t_error;
 		}
 
-		return this.typeNode(astNode);
+		const nodeType = this.typeNode(astNode);
+		if (nodeType instanceof ClassType) return nodeType.instanceType;
+		return nodeType;
 	}
 
 	private resolveObjectType(otype: ObjectType, token?: Token): ObjectType {
@@ -130,16 +169,45 @@ export default class Binder {
 		return otype;
 	}
 
+	// element types of arrays like `Point[]` are
+	// unresolved when the array type is parsed.
+	private resolveArrayType(type: Typing.Type, token?: Token): Typing.Type {
+		const typeArgs = t_Array.typeArgsOf(type) as Typing.Type[];
+		return t_Array.instantiate(typeArgs.map(t => this.resolve(t, token)));
+	}
+
+	private resolveTupleType(type: TupleType, token?: Token) {
+		for (let i = 0; i < type.elementTypes.length; i++) {
+			type.elementTypes[i] = this.resolve(type.elementTypes[i], token);
+		}
+		return type;
+	}
+
 	private resolveFnType(type: FunctionType, token?: Token) {
+		// the type parameters of a generic function type are only visible in it.
+		const typeParams = type instanceof GenericFunctionType ? type.typeParams : [];
+		const scope = new AST.Body();
+		typeParams.forEach(param => scope.bindType(param.tag, param));
+		if (typeParams.length) this.enterBlock(scope);
+		this.resolveTypeParams(typeParams, token);
+
 		for (let i = 0; i < type.params.length; i++) {
 			type.params[i].type = this.resolve(type.params[i].type);
 		}
 		type.returnType = this.resolve(type.returnType);
+
+		if (typeParams.length) this.exitBlock();
 		return type;
 	}
 
 	private resolveGenericInstance(type: GenericInstance, token?: Token) {
-		const template = this.findType(type.parentName);
+		let template = this.findType(type.parentName);
+
+		// generic types can also be used before they are declared.
+		if (!template) {
+			const astNode = this.findTypeNode(type.parentName);
+			if (astNode) template = this.typeNode(astNode);
+		}
 
 		if (!(template && template instanceof GenericType)) {
 			this.errOrWarn(`Cannot find generic type named '${type.parentName}'`, token);
@@ -148,9 +216,12 @@ export default class Binder {
 
 		const argCount = type.typeArgs.length;
 		const paramCount = template.typeParams.length;
-		if (paramCount != argCount) {
+		const requiredCount = template.requiredParamCount;
+		if (argCount < requiredCount || argCount > paramCount) {
+			const expected =
+				requiredCount == paramCount ? paramCount : `between ${requiredCount} and ${paramCount}`;
 			this.errOrWarn(
-				`type '${template.name}' expects ${paramCount} type arguments but ${argCount} were provided.`,
+				`type '${template.name}' expects ${expected} type arguments but ${argCount} were provided.`,
 				token
 			);
 			return Typing.t_error;
@@ -159,6 +230,13 @@ export default class Binder {
 		for (let i = 0; i < type.typeArgs.length; i++) {
 			type.typeArgs[i] = this.resolve(type.typeArgs[i]);
 		}
+		type.typeArgs = template.withDefaults(type.typeArgs);
+
+		const violation = unsatisfiedConstraint(template.typeParams, type.typeArgs);
+		if (violation) {
+			this.errOrWarn(violation, token);
+			return Typing.t_error;
+		}
 
 		if (template != this.currentGeneric) {
 			return template.instantiate(type.typeArgs);
@@ -168,6 +246,26 @@ export default class Binder {
 		return type;
 	}
 
+	/**
+	 * Resolves the constraints and default types of a list of type parameters,
+	 * after the parameters have been declared. Default types must satisfy the
+	 * constraints of their parameters.
+	 * @param params The type parameters.
+	 * @param token Token to report errors at.
+	 */
+	private resolveTypeParams(params: Typing.Type[], token?: Token) {
+		params.forEach((param, i) => {
+			if (!(param instanceof Typing.PlaceHolderType)) return;
+			if (param.constraint) param.constraint = this.resolve(param.constraint, token);
+			if (!param.defaultType) return;
+
+			param.defaultType = this.resolve(param.defaultType, token);
+			const args = fillDefaults(params, params.slice(0, i));
+			const violation = unsatisfiedConstraint(params.slice(0, i + 1), args);
+			if (violation) this.errOrWarn(violation, token);
+		});
+	}
+
 	private resolveUnionType(utype: UnionType, token?: Token) {
 		for (let i = 0; i < utype.types.length; i++) {
 			utype.types[i] = this.resolve(utype.types[i], token);
@@ -176,8 +274,17 @@ export default class Binder {
 	}
 
 	public bind() {
-		this.enterBlock(this.ast.body);
+		// imports are bound first, so imported types
+		// can be used anywhere in the file.
 		for (const stmt of this.ast.body.statements) {
+			if (stmt.kind == NKind.ImportDecl) this.importDecl(stmt as AST.ImportDecl);
+		}
+		this.block(this.ast.body);
+	}
+
+	private block(body: AST.Body) {
+		this.enterBlock(body);
+		for (const stmt of body.statements) {
 			this.statement(stmt);
 		}
 		this.exitBlock();
@@ -191,17 +298,200 @@ export default class Binder {
 				return this.structDecl(stmt as AST.StructDecl);
 			case NKind.VarDeclaration:
 				return this.varDecl(stmt as AST.VarDeclaration);
+			case NKind.FunctionDecl:
+				return this.funcDecl(stmt as AST.FunctionDeclaration);
+			case NKind.ClassDecl:
+				return this.classDecl(stmt as AST.ClassDecl);
+			case NKind.EnumDecl:
+				return this.enumDecl(stmt as AST.EnumDecl);
+			case NKind.ExportDecl:
+				return this.exportDecl(stmt as AST.ExportDecl);
+			case NKind.AmbientDecl:
+				const { typeInfo } = stmt as AST.AmbientDecl;
+				typeInfo.type = this.resolve(typeInfo.type, typeInfo.token);
+				break;
+			case NKind.IfStmt:
+				return this.ifStmt(stmt as AST.IfStmt);
+			case NKind.WhileStmt:
+				return this.whileStmt(stmt as AST.WhileStmt);
+			case NKind.ForStmt:
+				return this.forStmt(stmt as AST.ForStmt);
+			case NKind.ForOfStmt:
+				return this.forOfStmt(stmt as AST.ForOfStmt);
+			case NKind.ForInStmt:
+				return this.forInStmt(stmt as AST.ForInStmt);
+			case NKind.SwitchStmt:
+				return this.switchStmt(stmt as AST.SwitchStmt);
+			case NKind.ExprStmt:
+				return this.expression((stmt as AST.ExprStmt).expr);
+			case NKind.ReturnStmt:
+				const value = (stmt as AST.ReturnStmt).expr;
+				if (value) this.expression(value);
+				break;
+			default:
+				break;
+		}
+	}
+
+	// Expressions are visited to bind the types
+	// that appear in them, like in function parameters
+	// and match patterns.
+	private expression(expr: AST.Expression) {
+		switch (expr.kind) {
+			case NKind.BinaryExpr:
+			case NKind.AssignmentExpr:
+				this.expression((expr as AST.BinaryExpr).left);
+				this.expression((expr as AST.BinaryExpr).right);
+				break;
+			case NKind.PrefixUnaryExpr:
+			case NKind.PostfixUnaryExpr:
+				this.expression((expr as AST.PrefixUnaryExpr).operand);
+				break;
+			case NKind.GroupingExpr:
+				this.expression((expr as AST.GroupExpr).expr);
+				break;
+			case NKind.CallExpr: {
+				const call = expr as AST.CallExpr;
+				this.expression(call.callee);
+				call.args.forEach(arg => this.expression(arg));
+				call.typeArgs.forEach(arg => (arg.type = this.resolve(arg.type, arg.token)));
+				break;
+			}
+			case NKind.NewExpr: {
+				const newExpr = expr as AST.NewExpr;
+				this.expression(newExpr.callee);
+				newExpr.args.forEach(arg => this.expression(arg));
+				newExpr.typeArgs.forEach(arg => (arg.type = this.resolve(arg.type, arg.token)));
+				break;
+			}
+			case NKind.MemberAcessExpr:
+				this.expression((expr as AST.MemberAccessExpr).object);
+				this.expression((expr as AST.MemberAccessExpr).property);
+				break;
+			case NKind.ArrayExpr:
+				(expr as AST.ArrayExpr).elements.forEach(el => this.expression(el));
+				break;
+			case NKind.ObjectExpr:
+				(expr as AST.ObjectExpr).kvPairs.forEach(value => this.expression(value));
+				break;
+			case NKind.FunctionExpr:
+				this.funcSignature(expr as AST.FunctionExpr);
+				this.block((expr as AST.FunctionExpr).body);
+				break;
+			case NKind.SpreadExpr:
+				this.expression((expr as AST.SpreadExpr).expr);
+				break;
+			case NKind.CastExpr:
+				this.castExpr(expr as AST.CastExpr);
+				break;
+			case NKind.TypeTestExpr:
+				this.typeTestExpr(expr as AST.TypeTestExpr);
+				break;
+			case NKind.TemplateLiteral:
+				(expr as AST.TemplateLiteral).expressions.forEach(e => this.expression(e));
+				break;
+			case NKind.MatchExpr:
+				this.matchExpr(expr as AST.MatchExpr);
+				break;
 			default:
 				break;
 		}
 	}
 
-	private typeNode(node: AST.TypeDef | AST.StructDecl): Typing.Type {
+	private castExpr(expr: AST.CastExpr) {
+		this.expression(expr.expr);
+		expr.typeInfo.type = this.resolve(expr.typeInfo.type, expr.typeInfo.token);
+	}
+
+	private typeTestExpr(expr: AST.TypeTestExpr) {
+		this.expression(expr.expr);
+		expr.typeInfo.type = this.resolve(expr.typeInfo.type, expr.typeInfo.token);
+	}
+
+	private matchExpr(expr: AST.MatchExpr) {
+		this.expression(expr.subject);
+		for (const arm of expr.arms) {
+			if (arm.pattern instanceof AST.TypeInfo) {
+				arm.pattern.type = this.resolve(arm.pattern.type, arm.pattern.token);
+			} else if (arm.pattern) {
+				this.expression(arm.pattern);
+			}
+			this.expression(arm.body);
+		}
+	}
+
+	private typeNode(node: AST.TypeNode): Typing.Type {
 		if (node.kind == NKind.TypeAlias) return this.typedef(node);
 		else if (node.kind == NKind.RecordDeclaration) return this.structDecl(node);
+		else if (node.kind == NKind.ClassDecl) return this.classDecl(node);
+		else if (node.kind == NKind.EnumDecl) return this.enumDecl(node);
 		throw new Error("Unexpected type node.");
 	}
 
+	private importDecl(stmt: AST.ImportDecl) {
+		// unresolved modules and names are reported by the checker.
+		if (!stmt.exports) return;
+
+		for (const { name } of stmt.names) {
+			const symbol = stmt.exports.get(name);
+			if (!symbol) continue;
+
+			if (symbol.boundType) this.ast.body.bindType(name, symbol.boundType);
+			if (symbol.type) this.ast.body.declarations.push(new ImportDeclaration(name, symbol.type));
+		}
+	}
+
+	private exportDecl(stmt: AST.ExportDecl) {
+		const decl = stmt.declaration;
+		switch (decl.kind) {
+			case NKind.TypeAlias:
+			case NKind.RecordDeclaration:
+			case NKind.ClassDecl:
+			case NKind.EnumDecl:
+				const type = this.typeNode(decl as AST.TypeNode);
+				stmt.boundTypes.set((decl as AST.TypeNode).name, type);
+				break;
+			default:
+				this.statement(decl);
+		}
+	}
+
+	private ifStmt(stmt: AST.IfStmt) {
+		this.expression(stmt.condition);
+		this.block(stmt.thenBody);
+		if (stmt.elseBody) this.block(stmt.elseBody);
+	}
+
+	private whileStmt(stmt: AST.WhileStmt) {
+		this.expression(stmt.condition);
+		this.block(stmt.body);
+	}
+
+	private forStmt(stmt: AST.ForStmt) {
+		this.expression(stmt.start);
+		this.expression(stmt.stop);
+		if (stmt.step) this.expression(stmt.step);
+		this.block(stmt.body);
+	}
+
+	private forOfStmt(stmt: AST.ForOfStmt) {
+		this.expression(stmt.iterable);
+		this.block(stmt.body);
+	}
+
+	private forInStmt(stmt: AST.ForInStmt) {
+		this.expression(stmt.object);
+		this.block(stmt.body);
+	}
+
+	private switchStmt(stmt: AST.SwitchStmt) {
+		this.expression(stmt.discriminant);
+		for (const switchCase of stmt.cases) {
+			switchCase.tests.forEach(test => this.expression(test));
+			this.block(switchCase.body);
+		}
+	}
+
 	// TODO fix and make this work.
 	private typedef(decl: AST.TypeDef): Typing.Type {
 		if (decl.isGeneric) return this.genericTypedef(decl);
@@ -223,6 +513,7 @@ export default class Binder {
 		typedef.typeParams.forEach(type => {
 			this.addType(type.tag, type);
 		});
+		this.resolveTypeParams(typedef.typeParams, typedef.typeInfo.token);
 
 		let innerType = typedef.typeInfo.type;
 		const isRecursable = this.isTypeRecursable(innerType);
@@ -235,6 +526,7 @@ export default class Binder {
 		// type to construct the generic.
 		if (!isRecursable) innerType = this.resolve(innerType, typedef.typeInfo.token);
 		const template = new GenericType(name, innerType, typedef.typeParams);
+		const enclosingGeneric = this.currentGeneric;
 		this.currentGeneric = template;
 		this.addType(name, template);
 		if (isRecursable) this.resolve(innerType, typedef.typeInfo.token);
@@ -244,7 +536,7 @@ export default class Binder {
 			this.removeType(type.tag);
 		});
 
-		this.currentGeneric = null;
+		this.currentGeneric = enclosingGeneric;
 		return template;
 	}
 
@@ -263,8 +555,10 @@ export default class Binder {
 			const type = typeInfo.type;
 			const fieldName = nameToken.raw;
 			const resolved = this.resolve(type, typeInfo.token);
-			objType.defineProperty(fieldName, resolved);
+			defineStructMember(objType, fieldName, resolved);
 		});
+		decl.optionalProperties.forEach(name => objType.optionalProperties.add(name));
+		objType.constructorType = this.structConstructor(decl);
 
 		return objType;
 	}
@@ -281,14 +575,18 @@ export default class Binder {
 		}
 
 		const genericType = new GenericType(decl.name, innerType, decl.typeParams);
+		const enclosingGeneric = this.currentGeneric;
 		this.currentGeneric = genericType;
 
 		this.addType(name, genericType);
+		this.resolveTypeParams(decl.typeParams, decl.token as Token);
 
 		decl.properties.forEach((tInfo, nameToken) => {
 			const type = this.resolve(tInfo.type, nameToken);
-			innerType.defineProperty(nameToken.raw, type);
+			defineStructMember(innerType, nameToken.raw, type);
 		});
+		decl.optionalProperties.forEach(name => innerType.optionalProperties.add(name));
+		innerType.constructorType = this.structConstructor(decl);
 
 		// remove all the type parameters after binding
 		// the generic template.
@@ -296,17 +594,174 @@ export default class Binder {
 			this.removeType(tparam.tag);
 		}
 
-		this.currentGeneric = null;
+		this.currentGeneric = enclosingGeneric;
 		return genericType;
 	}
 
+	private structConstructor(decl: AST.StructDecl): FunctionType | null {
+		if (!decl.constructorType) return null;
+		const type = this.resolve(decl.constructorType.type, decl.constructorType.token);
+		return type instanceof FunctionType ? type : null;
+	}
+
 	private varDecl(vdecl: AST.VarDeclaration) {
 		for (const decl of vdecl.declarators) {
 			decl.typeInfo.type = this.resolve(decl.typeInfo.type, decl.typeInfo.token);
+			if (decl.value) this.expression(decl.value);
+		}
+	}
+
+	private funcDecl(decl: AST.FunctionDeclaration) {
+		this.funcSignature(decl.lambda);
+		this.block(decl.lambda.body);
+	}
+
+	/**
+	 * Resolves the parameter and return type annotations of a function
+	 * and returns the function's type.
+	 * @param fn The function expression node.
+	 */
+	private funcSignature(fn: AST.FunctionExpr): FunctionType {
+		// the type parameters of a generic function can be
+		// used in its signature, and anywhere in its body.
+		fn.typeParams.forEach(type => fn.body.bindType(type.tag, type));
+		if (fn.isGeneric) this.enterBlock(fn.body);
+		this.resolveTypeParams(fn.typeParams, fn.token as Token);
+
+		for (const param of fn.params) {
+			param.typeInfo.type = this.resolve(param.typeInfo.type, param.typeInfo.token);
+		}
+
+		const returnInfo = fn.returnTypeInfo;
+		if (returnInfo.type != Typing.t_infer) {
+			returnInfo.type = this.resolve(returnInfo.type, returnInfo.token);
+		}
+
+		if (fn.isGeneric) this.exitBlock();
+		return FuncDeclaration.typeOf(fn);
+	}
+
+	private classDecl(decl: AST.ClassDecl): ClassType {
+		// a class may be bound earlier than it's declaration
+		// if it is used in a type annotation before being declared.
+		if (decl.type) return decl.type;
+
+		const classType = new ClassType(decl.name);
+		decl.type = classType;
+		this.addType(decl.name, classType);
+
+		if (decl.superClass) {
+			const base = this.baseClass(decl.superClass);
+			if (base == classType || (base && base.isSubtypeOf(classType))) {
+				this.error(`Class '${decl.name}' cannot extend itself.`, decl.superClass.token as Token);
+			} else if (base) {
+				classType.setBaseClass(base);
+			}
 		}
+
+		for (const prop of decl.properties) {
+			const { typeInfo } = prop;
+			if (typeInfo.type != Typing.t_infer) {
+				typeInfo.type = this.resolve(typeInfo.type, typeInfo.token);
+			} else if (prop.value) {
+				// the other fields get their type when the class is checked.
+				typeInfo.type = literalType(prop.value);
+			}
+
+			if (prop.isStatic) classType.defineStaticMember(prop.name.raw, typeInfo.type);
+			else classType.defineInstanceMember(prop.name.raw, typeInfo.type);
+		}
+
+		for (const method of decl.methods) {
+			const type = this.funcSignature(method.lambda);
+			if (method.isStatic) classType.defineStaticMember(method.name.raw, type);
+			else classType.defineInstanceMember(method.name.raw, type);
+		}
+
+		if (decl.ctor) {
+			const sig = this.funcSignature(decl.ctor);
+			classType.ctor = new FunctionType("", sig.params, classType.instanceType);
+			this.block(decl.ctor.body);
+		} else if (classType.baseClass) {
+			// classes without a constructor inherit the base class' constructor.
+			const baseParams = classType.baseClass.ctor.params;
+			classType.ctor = new FunctionType("", baseParams, classType.instanceType);
+		}
+
+		for (const prop of decl.properties) {
+			if (prop.value) this.expression(prop.value);
+		}
+
+		for (const method of decl.methods) this.block(method.lambda.body);
+		return classType;
+	}
+
+	private enumDecl(decl: AST.EnumDecl): EnumType {
+		if (decl.type) return decl.type;
+
+		const enumType = new EnumType(decl.name);
+		decl.type = enumType;
+		this.addType(decl.name, enumType);
+
+		for (const member of decl.members) {
+			if (enumType.members.has(member.name.raw)) {
+				this.error(`Duplicate enum member '${member.name.raw}'.`, member.name);
+				continue;
+			}
+			enumType.defineMember(member.name.raw, member.value);
+		}
+
+		return enumType;
+	}
+
+	private baseClass(name: AST.Identifier): ClassType | null {
+		let type = this.findType(name.name);
+
+		if (!type) {
+			const node = this.findTypeNode(name.name);
+			if (node) type = this.typeNode(node);
+		}
+
+		if (!type) {
+			this.error(`Cannot find base class '${name.name}'.`, name.token as Token);
+			return null;
+		}
+
+		if (!(type instanceof ClassType)) {
+			this.error(`'${name.name}' is not a class.`, name.token as Token);
+			return null;
+		}
+
+		return type;
 	}
+}
 
-	// private funDecl(fdecl: AST.FunctionDeclaration) {
+// a member declared more than once with function types is overloaded,
+// calls to it use the first signature that takes their number of arguments.
+function defineStructMember(struct: ObjectType, name: string, type: Typing.Type) {
+	const declared = struct.properties.get(name);
+	if (declared instanceof FunctionType && type instanceof FunctionType) {
+		declared.overloads.push(type);
+	} else {
+		struct.defineProperty(name, type);
+	}
+}
 
-	// }
+// the type of a number, string or boolean literal, so that fields
+// initialized with one can be used before their class is checked.
+function literalType(expr: AST.Expression): Typing.Type {
+	if (!(expr instanceof AST.Literal)) return Typing.t_infer;
+	switch ((expr.token as Token).type) {
+		case TT.LITERAL_NUM:
+		case TT.LITERAL_HEX:
+		case TT.LITERAL_BINARY:
+			return Typing.t_number;
+		case TT.LITERAL_STR:
+			return Typing.t_string;
+		case TT.TRUE:
+		case TT.FALSE:
+			return Typing.t_bool;
+		default:
+			return Typing.t_infer;
+	}
 }
@@ -4,6 +4,10 @@ import Ave from "../index";
 interface ParseResult {
   [key: string]: any;
   flags: Set<string>;
+  // arguments that are not options, like file names.
+  positional: string[];
+  // options and flags that were not recognized.
+  unknown: string[];
 }
 
 interface Paramter {
@@ -29,7 +33,8 @@ export default class {
   private params: Array<argument> = [];
   private flags: Array<flag> = [];
 
-  constructor(opts?: Array<Paramter>) {
+  // `usage` is shown at the top of the help message.
+  constructor(opts?: Array<Paramter>, private usage?: string) {
     if (opts) {
       for (let opt of opts) {
         if (opt.type == "flag") this.addFlag(opt.short, opt.long, opt.help);
@@ -99,16 +104,27 @@ export default class {
 
   parse(argv: string[]) {
     const args = argv.slice(2, argv.length);
-    const optsMap: ParseResult = { flags: new Set() };
+    const optsMap: ParseResult = { flags: new Set(), positional: [], unknown: [] };
 
-    for (const argOrFlag of args) {
-      if (argOrFlag.includes("=")) {
+    for (let i = 0; i < args.length; i++) {
+      const argOrFlag = args[i];
+
+      if (argOrFlag[0] != "-") {
+        optsMap.positional.push(argOrFlag);
+      } else if (argOrFlag.includes("=")) {
         const kv = this.parseArg(argOrFlag);
-        if (!kv) continue;
-        optsMap[kv[0]] = kv[1];
+        if (kv) optsMap[kv[0]] = kv[1];
+        else optsMap.unknown.push(argOrFlag);
       } else {
+        // the value of an argument may also be the next
+        // word, like in `--out file.js`.
+        const name = argOrFlag.replace(/^--?/, "");
+        const param = this.findParam(name);
         const flag = this.parseFlag(argOrFlag);
-        if (flag) optsMap.flags.add(flag.longName);
+
+        if (param && i + 1 < args.length) optsMap[param.longName] = args[++i];
+        else if (flag) optsMap.flags.add(flag.longName);
+        else optsMap.unknown.push(argOrFlag);
       }
     }
 
@@ -118,7 +134,7 @@ export default class {
   displayHelp() {
     console.log(`
 Ave compiler | Version ${Ave.VERSION_STRING}
-commands:\n${this.params
+${this.usage ? `usage: ${this.usage}\n` : ""}options:\n${this.params
       .map(
         (e) => `${e.longName}: (-${e.shortName}, ${e.longName}) ${e.helpTip}`
       )
@@ -2,53 +2,103 @@
 
 import ArgParser from "./arg-parser";
 import fs = require("fs");
+import chalk = require("chalk");
 import Ave from "../index";
 import path = require("path");
+import CompilationContext, { Module } from "../compiler/context";
+import {
+  CompilerOptions,
+  defaultOptions,
+  readConfigFile,
+} from "../compiler/options";
+import { ErrorReportFn } from "../error/error";
+import { throwError } from "../error/reporter";
+import { matchesGlob } from "../util/util";
 
 const configFileName = "aveconfig.json";
 
-interface CompilerOptions {
-  out: string;
-  in: string;
-}
-const argParser = new ArgParser([
-  {
-    type: "flag",
-    short: "v",
-    long: "version",
-    help: "show compiler version",
-  },
-  {
-    type: "flag",
-    short: "h",
-    long: "help",
-    help: "show this message",
-  },
-]);
-
-if (fs.existsSync(configFileName)) {
-  const contents = fs.readFileSync(configFileName, { encoding: "utf-8" });
-  const json = JSON.parse(contents);
-  const compilerOptions = {
-    in: json.in,
-    out: json.out,
-  };
-  compile(compilerOptions);
-} else {
-  console.error("No 'aveconfig.json' file found");
-}
+const argParser = new ArgParser(
+  [
+    {
+      type: "flag",
+      short: "v",
+      long: "version",
+      help: "show compiler version",
+    },
+    {
+      type: "flag",
+      short: "h",
+      long: "help",
+      help: "show this message",
+    },
+    {
+      type: "flag",
+      short: "w",
+      long: "watch",
+      help: "recompile files when they change",
+    },
+    {
+      type: "flag",
+      short: "s",
+      long: "stdin",
+      help: "compile the code read from the standard input, and print the Javascript",
+    },
+    {
+      type: "flag",
+      short: "n",
+      long: "noEmit",
+      help: "check the files for errors, without writing any output",
+    },
+    {
+      type: "arg",
+      short: "o",
+      long: "out",
+      help: "file to write the Javascript to, when compiling a single file",
+    },
+    {
+      type: "arg",
+      short: "d",
+      long: "outDir",
+      help: "directory to write the compiled files to",
+    },
+    {
+      type: "arg",
+      short: "c",
+      long: "config",
+      help: `path to the config file, '${configFileName}' by default`,
+    },
+  ],
+  "avec [options] [file.ave ...]"
+);
 
 interface File {
   path: string;
   outPath: string;
-  contents: string;
 }
 
-function compile(opts: CompilerOptions) {
-  const outDir = opts.out;
-  const args = argParser.parse(process.argv);
+const args = argParser.parse(process.argv);
+const emit = !args.flags.has("noEmit");
+
+// errors are counted for the exit code, and for the
+// summary printed after every rebuild in watch mode.
+let errorCount = 0;
+const reportError: ErrorReportFn = (err, source) => {
+  errorCount++;
+  throwError(err, source);
+};
 
-  if (args.flags.has("help")) {
+// declaration files written by the compiler. The watcher ignores
+// them, since they are often written into the source directory.
+const writtenDeclarations = new Set<string>();
+
+main();
+if (errorCount) process.exitCode = 1;
+
+function main() {
+  if (args.unknown.length) {
+    fail(`Unknown option '${args.unknown[0]}', run 'avec --help' to see the options.`);
+    return;
+  } else if (args.flags.has("help")) {
     argParser.displayHelp();
     return;
   } else if (args.flags.has("version")) {
@@ -56,34 +106,225 @@ function compile(opts: CompilerOptions) {
     return;
   }
 
-  if (!fs.existsSync(outDir)) {
-    fs.mkdirSync(outDir);
+  const configPath: string = args.config || configFileName;
+  const hasConfig = fs.existsSync(configPath);
+
+  if (args.config && !hasConfig) {
+    fail(`Cannot find the config file '${args.config}'.`);
+    return;
+  }
+
+  // files are compiled with the default options when there is no config file.
+  const opts = hasConfig
+    ? readConfigFile(configPath, reportError)
+    : { ...defaultOptions };
+  if (!opts) return;
+
+  // single files and the standard input are compiled without the rest of the
+  // project, the options of the config file still apply if there is one.
+  if (args.flags.has("stdin")) {
+    compileStdin(opts);
+  } else if (args.positional.length) {
+    compileFiles(opts, args.positional);
+  } else if (hasConfig) {
+    if (args.outDir) opts.out = args.outDir;
+    compileProject(opts);
+  } else {
+    fail(`No '${configFileName}' file found`);
+  }
+}
+
+function fail(message: string) {
+  console.error(chalk.red(message));
+  process.exitCode = 1;
+}
+
+function createContext(opts: CompilerOptions, rootDir: string) {
+  return new CompilationContext(rootDir, opts, reportError);
+}
+
+function compileStdin(opts: CompilerOptions) {
+  const source = fs.readFileSync(0, { encoding: "utf-8" });
+  // imports are resolved from the current directory, and the modules
+  // they import are written next to the output file, or to their sources.
+  const outRoot = args.out ? path.dirname(args.out) : ".";
+  const context = createContext({ ...opts, in: ".", out: outRoot }, ".");
+  const module = context.compile("<stdin>", source);
+  if (module.hasError || !emit) return;
+
+  if (args.out) writeOutputs(module, { path: "<stdin>", outPath: args.out });
+  else process.stdout.write(module.code);
+  writeImports(context, module, ".", outRoot, new Set());
+}
+
+function compileFiles(opts: CompilerOptions, fileNames: string[]) {
+  if (args.out && fileNames.length > 1) {
+    fail("'--out' can only be used when compiling a single file.");
+    return;
+  }
+
+  const files = fileNames.filter((fileName) => {
+    if (fs.existsSync(fileName) && fs.statSync(fileName).isFile()) return true;
+    fail(`Cannot find the file '${fileName}'.`);
+    return false;
+  });
+  if (!files.length) return;
+
+  // imports are resolved within the directory containing all the files. The
+  // output is written next to the source files by default, and the modules
+  // they import are written in the same place relative to the output.
+  const rootDir = commonDir(files.map((fileName) => path.dirname(path.resolve(fileName))));
+  const outRoot = args.out ? path.dirname(args.out) : args.outDir || rootDir;
+
+  // imported modules are compiled once and shared
+  // between all the files that import them.
+  const context = createContext({ ...opts, in: rootDir, out: outRoot }, rootDir);
+  const written = new Set<string>();
+  for (const fileName of files) {
+    const module = context.compile(fileName);
+    if (module.hasError || !emit) continue;
+
+    const outPath = args.out || outputPath(rootDir, outRoot, fileName);
+    writeOutputs(module, { path: fileName, outPath });
+    written.add(module.name);
+    writeImports(context, module, rootDir, outRoot, written);
+  }
+}
+
+// writes the Ave modules imported by `module`, and the modules they import.
+// `written` has the modules that have already been written.
+function writeImports(
+  context: CompilationContext,
+  module: Module,
+  rootDir: string,
+  outRoot: string,
+  written: Set<string>
+) {
+  for (const name of module.imports) {
+    if (written.has(name) || path.extname(name) != ".ave") continue;
+    written.add(name);
+
+    const imported = context.compile(name);
+    writeOutputs(imported, { path: name, outPath: outputPath(rootDir, outRoot, name) });
+    writeImports(context, imported, rootDir, outRoot, written);
+  }
+}
+
+// the output file of a source file is at the same place in
+// `outRoot` as the source file is in `rootDir`.
+function outputPath(rootDir: string, outRoot: string, filePath: string) {
+  const relativePath = path.relative(rootDir, path.resolve(filePath));
+  return path.join(outRoot, relativePath).replace(/(\.ave)?$/, ".js");
+}
+
+// returns the deepest directory that contains all the directories in `dirs`.
+function commonDir(dirs: string[]) {
+  return dirs.reduce((common, dir) => {
+    while (path.relative(common, dir).startsWith("..") && path.dirname(common) != common) {
+      common = path.dirname(common);
+    }
+    return common;
+  });
+}
+
+function compileProject(opts: CompilerOptions) {
+  const context = createContext(opts, opts.in);
+
+  const files = listFiles(opts);
+  for (const file of files) {
+    compileFile(context, file);
   }
 
+  if (!args.flags.has("watch")) return;
+  printSummary(files.length, errorCount);
+
+  watchDirectory(opts.in, (changed) => {
+    errorCount = 0;
+
+    // the changed files are compiled again, along with the files importing them.
+    const stale = new Set<string>();
+    for (const filePath of changed) {
+      stale.add(path.resolve(filePath));
+      context.invalidate(filePath).forEach((name) => stale.add(name));
+      if (!fs.existsSync(filePath) && emit) removeOutputs(opts, filePath);
+    }
+
+    const staleFiles = listFiles(opts).filter((file) =>
+      stale.has(path.resolve(file.path))
+    );
+
+    for (const file of staleFiles) {
+      compileFile(context, file);
+    }
+
+    printSummary(staleFiles.length, errorCount);
+  });
+}
+
+// creates the output directories, and returns
+// the files to be compiled in the source directory.
+function listFiles(opts: CompilerOptions): File[] {
   const subdirs: string[] = [];
   const files: File[] = buildFileAndDirList(
     opts.in,
     opts.in,
     opts.out,
     subdirs
-  );
-  // console.log(subdirs, files);
+  ).filter((file) => isIncluded(opts, file.path));
+
+  if (!emit) return files;
 
-  for (const dir of subdirs) {
+  for (const dir of [opts.out, ...subdirs]) {
     if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir);
+      fs.mkdirSync(dir, { recursive: true });
     }
   }
 
-  for (const file of files) {
-    compileFile(file);
-  }
+  return files;
 }
 
-function compileFile(file: File) {
-  const code = fs.readFileSync(file.path, { encoding: "utf-8" });
-  const compiled = Ave.toJS(file.path, code);
-  if (compiled) fs.writeFileSync(file.outPath, compiled);
+// checks the path of a file in the source directory
+// against the `include` and `exclude` patterns.
+function isIncluded(opts: CompilerOptions, filePath: string) {
+  const relativePath = path
+    .relative(opts.in, filePath)
+    .split(path.sep)
+    .join("/");
+  const matches = (pattern: string) => matchesGlob(relativePath, pattern);
+  return opts.include.some(matches) && !opts.exclude.some(matches);
+}
+
+function compileFile(context: CompilationContext, file: File) {
+  const module = context.compile(file.path);
+  if (!module.hasError && emit) writeOutputs(module, file);
+}
+
+function writeOutputs(module: Module, file: File) {
+  const outDir = path.dirname(file.outPath);
+  if (!fs.existsSync(outDir)) fs.mkdirSync(outDir, { recursive: true });
+
+  let code = module.code;
+  if (module.declarations) {
+    const declarationPath = file.outPath.replace(/\.js$/, ".d.ts");
+    writtenDeclarations.add(path.resolve(declarationPath));
+    fs.writeFileSync(declarationPath, module.declarations);
+  }
+
+  if (module.sourceMap) {
+    // the compiled code refers to the map by the name of the source
+    // file, which is different if the output file was renamed.
+    const mapName = path.basename(file.outPath) + ".map";
+    code = code.replace(`sourceMappingURL=${module.sourceMap.file}.map`, `sourceMappingURL=${mapName}`);
+
+    // the map refers to the source file relative to it's own location.
+    const sourcePath = path
+      .relative(outDir, file.path)
+      .split(path.sep)
+      .join("/");
+    fs.writeFileSync(file.outPath + ".map", module.sourceMap.toJSON(sourcePath));
+  }
+
+  fs.writeFileSync(file.outPath, code);
 }
 
 // TODO: optimize, and split
@@ -102,14 +343,88 @@ function buildFileAndDirList(
     if (fs.statSync(fPath).isDirectory()) {
       subDirList.push(outPath);
       files = buildFileAndDirList(fPath, root, out, subDirList, files);
-    } else if (path.extname(fPath) == ".ave") {
+    } else if (path.extname(fPath) == ".ave" && !fPath.endsWith(".decl.ave")) {
+      // declaration files are loaded by the compilation context.
       files.push({
         path: fPath,
         outPath: outPath.substring(0, outPath.length - 3) + "js",
-        contents: fs.readFileSync(fPath, { encoding: "utf-8" }),
       });
     }
   });
 
   return files;
 }
+
+// removes the files compiled from a deleted source file.
+function removeOutputs(opts: CompilerOptions, filePath: string) {
+  if (path.extname(filePath) != ".ave") return;
+
+  const outPath = opts.out + filePath.substring(opts.in.length);
+  const jsPath = outPath.substring(0, outPath.length - 3) + "js";
+  for (const output of [jsPath, jsPath + ".map", outPath.substring(0, outPath.length - 3) + "d.ts"]) {
+    if (fs.existsSync(output)) fs.unlinkSync(output);
+  }
+}
+
+function printSummary(fileCount: number, errorCount: number) {
+  const time = chalk.grey(`[${new Date().toLocaleTimeString()}]`);
+  const files = `${fileCount} file${fileCount == 1 ? "" : "s"}`;
+  const errors = errorCount
+    ? chalk.red(`${errorCount} error${errorCount == 1 ? "" : "s"}`)
+    : chalk.green("no errors");
+
+  console.log(`${time} Compiled ${files}, found ${errors}. Watching for changes.`);
+}
+
+// calls `onChange` with the source files that changed in `root` and
+// it's sub directories. Saving a file often fires several events,
+// so the changes are collected until the events stop arriving.
+function watchDirectory(root: string, onChange: (files: string[]) => void) {
+  const watched = new Set<string>();
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const isDirectory = (dirPath: string) =>
+    fs.existsSync(dirPath) && fs.statSync(dirPath).isDirectory();
+
+  const watch = (dir: string) => {
+    if (watched.has(dir)) return;
+    watched.add(dir);
+
+    const watcher = fs.watch(dir, (_, fileName) => {
+      if (!fileName) return;
+
+      const filePath = dir + "/" + fileName;
+      if (isDirectory(filePath)) return watch(filePath);
+      if (!filePath.endsWith(".ave") && !filePath.endsWith(".d.ts")) return;
+      if (writtenDeclarations.has(path.resolve(filePath))) return;
+
+      changed.add(filePath);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        const files = Array.from(changed);
+        changed.clear();
+
+        // an unexpected error while rebuilding is reported
+        // without stopping the watcher.
+        try {
+          onChange(files);
+        } catch (err) {
+          fail(err instanceof Error ? err.message : String(err));
+        }
+      }, 100);
+    });
+
+    // the directory was removed.
+    watcher.on("error", () => {
+      watcher.close();
+      watched.delete(dir);
+    });
+
+    for (const fileName of fs.readdirSync(dir)) {
+      if (isDirectory(dir + "/" + fileName)) watch(dir + "/" + fileName);
+    }
+  };
+
+  watch(root);
+}
@@ -0,0 +1,343 @@
+import * as AST from "../../parser/ast/ast";
+import NodeKind = require("../../parser/ast/nodekind");
+import { DeclarationKind } from "../../parser/symbol_table/symtable";
+import ClassType from "../../type/class-type";
+import EnumType from "../../type/enum-type";
+import FunctionType, { ParameterTypeInfo, t_Function } from "../../type/function-type";
+import GenericType, {
+	GenericFunctionType,
+	GenericInstance,
+	instanceOrigin,
+	t_Array,
+} from "../../type/generic-type";
+import ObjectType from "../../type/object-type";
+import TupleType from "../../type/tuple-type";
+import * as Typing from "../../type/types";
+import UnionType from "../../type/union-type";
+import { compiledImportPath } from "../../util/util";
+
+// Typescript names of the primitive types.
+const primitiveNames: Map<Typing.Type, string> = new Map([
+	[Typing.t_number, "number"],
+	[Typing.t_string, "string"],
+	[Typing.t_bool, "boolean"],
+	[Typing.t_nil, "null"],
+	[Typing.t_undef, "undefined"],
+	[Typing.t_void, "void"],
+	[Typing.t_any, "any"],
+	[Typing.t_bottom, "never"],
+	// types that could not be checked or inferred.
+	[Typing.t_error, "any"],
+	[Typing.t_infer, "any"],
+]);
+
+/**
+ * Writes the Typescript declarations (`.d.ts`) of a checked Ave module,
+ * so that the Javascript it compiles to can be used from Typescript.
+ * Exported variables and functions are declared with their checked types,
+ * structs become interfaces, and type aliases, classes and enums are
+ * declared with their Typescript counterparts.
+ */
+export default class DeclarationGenerator {
+	public indentLevel: number = 0;
+	private readonly ast: AST.Program;
+	// names of the types declared by type aliases, so that references
+	// to an alias are written by name instead of being expanded.
+	private readonly aliasNames: Map<Typing.Type, string> = new Map();
+	// object types that are being written, used to stop at recursive types.
+	private readonly visiting: Set<Typing.Type> = new Set();
+
+	constructor(ast: AST.Program) {
+		this.ast = ast;
+	}
+
+	// helpers
+
+	private writeln(str: string): string {
+		return " ".repeat(this.indentLevel * 4) + str + "\n";
+	}
+
+	private block(header: string, members: string[]): string {
+		this.indentLevel++;
+		const body = members.map(m => this.writeln(m)).join("");
+		this.indentLevel--;
+		return this.writeln(`${header} {`) + body + this.writeln("}");
+	}
+
+	public generateDeclarations(): string {
+		for (const stmt of this.ast.body.statements) {
+			const decl = stmt.kind == NodeKind.ExportDecl ? (stmt as AST.ExportDecl).declaration : stmt;
+			if (decl.kind != NodeKind.TypeAlias) continue;
+
+			const name = (decl as AST.TypeDef).name;
+			const type = this.ast.body.findType(name);
+			if (type && this.isAnonymous(type)) this.aliasNames.set(type, name);
+		}
+
+		let out = "";
+		let hasLocalDeclarations = false;
+
+		for (const stmt of this.ast.body.statements) {
+			if (stmt.kind == NodeKind.ImportDecl) {
+				out += this.importDecl(stmt as AST.ImportDecl);
+			} else if (stmt.kind == NodeKind.ExportDecl) {
+				const decl = stmt as AST.ExportDecl;
+				out += this.declaration(decl.declaration, "export ", decl.types);
+			} else {
+				// types that are not exported may still be used by
+				// the exported declarations, so they are declared too.
+				const code = this.declaration(stmt, "", new Map());
+				if (code) hasLocalDeclarations = true;
+				out += code;
+			}
+		}
+
+		// in a declaration file, every name is exported unless the file has an
+		// export statement with no names. A file without exports needs it too,
+		// or it would not be a module.
+		if (hasLocalDeclarations || !out) out += this.writeln("export {};");
+		return out;
+	}
+
+	private declaration(decl: AST.Node, prefix: string, types: Map<string, Typing.Type>): string {
+		switch (decl.kind) {
+			case NodeKind.VarDeclaration:
+				if (!prefix) return "";
+				return this.varDeclaration(decl as AST.VarDeclaration, prefix, types);
+			case NodeKind.FunctionDecl: {
+				const { name, lambda } = decl as AST.FunctionDeclaration;
+				if (!prefix) return "";
+				return this.writeln(`${prefix}declare function ${name}${this.signature(lambda)};`);
+			}
+			case NodeKind.RecordDeclaration:
+				return this.structDecl(decl as AST.StructDecl, prefix);
+			case NodeKind.TypeAlias:
+				return this.typedef(decl as AST.TypeDef, prefix);
+			case NodeKind.ClassDecl:
+				return this.classDecl(decl as AST.ClassDecl, prefix);
+			case NodeKind.EnumDecl:
+				return this.enumDecl(decl as AST.EnumDecl, prefix);
+		}
+		return "";
+	}
+
+	private importDecl(decl: AST.ImportDecl): string {
+		const names = decl.names.map(id => id.name).join(", ");
+		return this.writeln(
+			`import { ${names} } from ${JSON.stringify(compiledImportPath(decl.source))};`
+		);
+	}
+
+	private varDeclaration(
+		decl: AST.VarDeclaration,
+		prefix: string,
+		types: Map<string, Typing.Type>
+	): string {
+		let keyword = "let";
+		if (decl.declarationType == DeclarationKind.Constant) keyword = "const";
+		else if (decl.declarationType == DeclarationKind.FunctionScope) keyword = "var";
+
+		return decl.declarators
+			.map(d => {
+				const type = types.get(d.name) || d.typeInfo.type;
+				return this.writeln(`${prefix}declare ${keyword} ${d.name}: ${this.typeString(type)};`);
+			})
+			.join("");
+	}
+
+	private structDecl(decl: AST.StructDecl, prefix: string): string {
+		const type = this.ast.body.findType(decl.name);
+		if (!type) return "";
+
+		const objType = type instanceof GenericType ? type.innerType : type;
+		const members = Array.from(objType.properties).map(
+			([name, memberType]) => `${this.memberName(objType, name)}: ${this.typeString(memberType)};`
+		);
+
+		if (objType instanceof ObjectType && objType.constructorType) {
+			const ctor = objType.constructorType;
+			const params = `(${this.params(ctor.params)}): ${this.typeString(ctor.returnType)}`;
+			members.unshift(`new ${this.typeParams(ctor)}${params};`);
+		}
+
+		return this.block(`${prefix}interface ${decl.name}${this.typeParams(type)}`, members);
+	}
+
+	private typedef(decl: AST.TypeDef, prefix: string): string {
+		const type = this.ast.body.findType(decl.name);
+		if (!type) return "";
+
+		const aliased = type instanceof GenericType ? type.innerType : type;
+		const header = `${prefix}type ${decl.name}${this.typeParams(type)}`;
+		return this.writeln(`${header} = ${this.typeString(aliased, true)};`);
+	}
+
+	private classDecl(decl: AST.ClassDecl, prefix: string): string {
+		const classType = decl.type;
+		if (!classType) return "";
+
+		let header = `${prefix}declare class ${decl.name}`;
+		if (classType.baseClass) header += ` extends ${classType.baseClass.name}`;
+
+		const members: string[] = [];
+		if (decl.ctor) {
+			members.push(`constructor(${this.lambdaParams(decl.ctor)});`);
+		}
+
+		for (const prop of decl.properties) {
+			const owner = prop.isStatic ? classType : classType.instanceType;
+			const type = owner.properties.get(prop.name.raw) || prop.typeInfo.type;
+			const modifier = prop.isStatic ? "static " : "";
+			members.push(`${modifier}${prop.name.raw}: ${this.typeString(type)};`);
+		}
+
+		for (const method of decl.methods) {
+			const modifier = method.isStatic ? "static " : "";
+			members.push(`${modifier}${method.name.raw}${this.signature(method.lambda)};`);
+		}
+
+		return this.block(header, members);
+	}
+
+	private enumDecl(decl: AST.EnumDecl, prefix: string): string {
+		const members = decl.members.map(m => `${m.name.raw} = ${JSON.stringify(m.value)},`);
+		return this.block(`${prefix}declare enum ${decl.name}`, members);
+	}
+
+	// types
+
+	private typeParams(type: Typing.Type): string {
+		if (!(type instanceof GenericType || type instanceof GenericFunctionType)) return "";
+		return this.typeParamList(type.typeParams);
+	}
+
+	private typeParamList(typeParams: Typing.Type[]): string {
+		if (!typeParams.length) return "";
+		const params = typeParams.map(t => {
+			if (!(t instanceof Typing.PlaceHolderType)) return t.tag;
+			let param = t.tag;
+			if (t.constraint) param += ` extends ${this.typeString(t.constraint)}`;
+			if (t.defaultType) param += ` = ${this.typeString(t.defaultType)}`;
+			return param;
+		});
+		return `<${params.join(", ")}>`;
+	}
+
+	private params(params: ParameterTypeInfo[]): string {
+		return params
+			.map(p => {
+				if (p.isRest) return `...${p.name}: ${this.typeString(p.type)}`;
+				return `${p.name}${p.required ? "" : "?"}: ${this.typeString(p.type)}`;
+			})
+			.join(", ");
+	}
+
+	// parameters with a default value are optional.
+	private lambdaParams(lambda: AST.FunctionExpr): string {
+		return this.params(
+			lambda.params.map(p => ({
+				name: p.name,
+				type: p.typeInfo.type,
+				required: !p.defaultValue,
+				isRest: p.isRest,
+			}))
+		);
+	}
+
+	// functions and methods are declared with their annotated return types,
+	// the checked type of a function has the type returned by its body instead.
+	private signature(lambda: AST.FunctionExpr): string {
+		const returnType = this.typeString(lambda.returnTypeInfo.type);
+		return `${this.typeParamList(lambda.typeParams)}(${this.lambdaParams(lambda)}): ${returnType}`;
+	}
+
+	// object, union, tuple and function types have no name of their own.
+	private isAnonymous(type: Typing.Type): boolean {
+		if (instanceOrigin(type)) return false;
+		if (type instanceof ObjectType) return !type.tag;
+		if (type instanceof FunctionType) return type != t_Function;
+		return type instanceof UnionType || type instanceof TupleType;
+	}
+
+	/**
+	 * Returns the Typescript syntax for `type`.
+	 * @param {Type} type The type to write.
+	 * @param {boolean} expandAlias If true, a type declared by an alias is
+	 * written out in full, instead of using the alias' name.
+	 */
+	private typeString(type: Typing.Type, expandAlias = false): string {
+		const primitive = primitiveNames.get(type);
+		if (primitive) return primitive;
+
+		const alias = this.aliasNames.get(type);
+		if (alias && !expandAlias) return alias;
+
+		const origin = instanceOrigin(type);
+		if (origin) {
+			const [generic, typeArgs] = origin;
+			if (generic == t_Array) return this.memberType(typeArgs[0]) + "[]";
+			return `${generic.name}<${typeArgs.map(t => this.typeString(t)).join(", ")}>`;
+		}
+
+		if (type instanceof GenericInstance) {
+			return `${type.parentName}<${type.typeArgs.map(t => this.typeString(t)).join(", ")}>`;
+		}
+
+		if (type instanceof ClassType) return `typeof ${type.name}`;
+		if (type instanceof EnumType) return type.name;
+
+		if (type instanceof UnionType) {
+			return type.types.map(t => this.memberType(t)).join(" | ");
+		}
+
+		if (type instanceof TupleType) {
+			return `[${type.elementTypes.map(t => this.typeString(t)).join(", ")}]`;
+		}
+
+		if (type instanceof FunctionType) {
+			if (type == t_Function) return "Function";
+			// the signatures of an overloaded function are intersected.
+			if (type.overloads.length) {
+				return type.signatures.map(s => `(${this.signatureType(s)})`).join(" & ");
+			}
+			return this.signatureType(type);
+		}
+
+		if (type instanceof ObjectType) {
+			if (type.tag) return type.tag;
+			if (this.visiting.has(type)) return "any";
+
+			this.visiting.add(type);
+			const members = Array.from(type.properties).map(
+				([name, memberType]) => `${this.memberName(type, name)}: ${this.typeString(memberType)}`
+			);
+			this.visiting.delete(type);
+
+			return members.length ? `{ ${members.join("; ")} }` : "{}";
+		}
+
+		// type parameters like `T` are written by name.
+		return type.tag;
+	}
+
+	// optional members are marked with a '?'.
+	private memberName(type: Typing.Type, name: string): string {
+		const isOptional = type instanceof ObjectType && type.optionalProperties.has(name);
+		return isOptional ? `${name}?` : name;
+	}
+
+	private signatureType(type: FunctionType): string {
+		const params = `(${this.params(type.params)}) => ${this.typeString(type.returnType)}`;
+		return (type.isConstructor ? "new " : "") + this.typeParams(type) + params;
+	}
+
+	// types inside unions and arrays are wrapped in
+	// parentheses when they would otherwise be ambiguous.
+	private memberType(type: Typing.Type): string {
+		const str = this.typeString(type);
+		const needsParens =
+			!this.aliasNames.has(type) &&
+			(type instanceof UnionType || (type instanceof FunctionType && type != t_Function));
+		return needsParens ? `(${str})` : str;
+	}
+}
@@ -1,15 +1,50 @@
 import { throwError } from "../../error/reporter";
-import Token from "../../lexer/token";
+import Token, { LocationData } from "../../lexer/token";
 import TType = require("../../lexer/tokentype");
 import * as AST from "../../parser/ast/ast";
 import NodeKind = require("../../parser/ast/nodekind");
 import { DeclarationKind } from "../../parser/symbol_table/symtable";
+import { InstanceType } from "../../type/class-type";
+import EnumType from "../../type/enum-type";
+import FunctionType from "../../type/function-type";
+import { t_Array } from "../../type/generic-type";
+import ObjectType from "../../type/object-type";
+import TupleType from "../../type/tuple-type";
+import * as Typing from "../../type/types";
+import UnionType from "../../type/union-type";
+import { compiledImportPath } from "../../util/util";
+import SourceMap, { Position } from "./sourcemap";
+
+// syntax used for the imports and exports of the generated code.
+export type ModuleFormat = "esm" | "commonjs";
+
+// while source positions are tracked, the code of every statement and
+// expression starts with a marker holding the index of it's position.
+const positionMarker = "\u0000";
+const markerPattern = /\u0000(\d+)\u0000/;
+// blank lines and markers before the code of a statement.
+const leadingPattern = /^(\u0000\d+\u0000|\s)*/;
+
+// a loop that encloses the code being generated.
+interface EnclosingLoop {
+	// the loop's label, a loop without one is given a label when
+	// a 'break' inside a switch statement has to exit it.
+	label: string | null;
+	// number of switch statements between the loop and the generated code.
+	switchDepth: number;
+}
 
 export default class JSGenerator {
 	public indentLevel: number = 0;
+	private readonly moduleFormat: ModuleFormat;
+	// source positions of the marked code, null unless a source map is generated.
+	private positions: LocationData[] | null = null;
+	// the loops around the code being generated, innermost last.
+	private loops: EnclosingLoop[] = [];
 
-	constructor(public ast: AST.Program) {
+	constructor(public ast: AST.Program, moduleFormat: ModuleFormat = "esm") {
 		this.ast = ast;
+		this.moduleFormat = moduleFormat;
 	}
 
 	// helpers
@@ -35,10 +70,60 @@ export default class JSGenerator {
 		return this.writeIndent() + str;
 	}
 
+	// marks `code` as generated from `node`, if source positions are tracked.
+	private mark(node: AST.Node, code: string): string {
+		if (!this.positions || !node.token || !code) return code;
+		const index = this.positions.push(node.token.pos) - 1;
+		return positionMarker + index + positionMarker + code;
+	}
+
 	public generateJS(): string {
 		return this.program(this.ast);
 	}
 
+	/**
+	 * Generates the Javascript along with a source map, that maps every
+	 * statement and expression back to it's position in the source file.
+	 * @param {string} file Name of the generated file.
+	 * @param {string} source Contents of the source file.
+	 */
+	public generateJSWithSourceMap(
+		file: string,
+		source: string
+	): { code: string; sourceMap: SourceMap } {
+		this.positions = [];
+		const parts = this.program(this.ast).split(markerPattern);
+		const sourceMap = new SourceMap(file, source);
+
+		let code = "";
+		let line = 0;
+		let column = 0;
+		let marked: LocationData | null = null;
+
+		// the text and the marker indices alternate in `parts`. Markers are mapped
+		// to the first character after them that isn't whitespace, when several
+		// markers end up at the same place, the innermost one is used.
+		parts.forEach((part, i) => {
+			if (i % 2 == 1) {
+				marked = (this.positions as LocationData[])[Number(part)];
+				return;
+			}
+
+			const start = part.search(/\S/);
+			if (marked && start >= 0) {
+				const position = advance({ line, column }, part.slice(0, start));
+				sourceMap.addMapping(position, { line: marked.line - 1, column: marked.column - 1 });
+				marked = null;
+			}
+
+			({ line, column } = advance({ line, column }, part));
+			code += part;
+		});
+
+		this.positions = null;
+		return { code, sourceMap };
+	}
+
 	private program(node: AST.Program): string {
 		let out = "";
 		for (let stmt of node.body.statements) {
@@ -48,6 +133,10 @@ export default class JSGenerator {
 	}
 
 	private statement(stmt: AST.Node): string {
+		return this.mark(stmt, this.statementCode(stmt));
+	}
+
+	private statementCode(stmt: AST.Node): string {
 		switch (stmt.kind) {
 			case NodeKind.VarDeclaration:
 				return this.varDeclaration(stmt as AST.VarDeclaration);
@@ -58,24 +147,56 @@ export default class JSGenerator {
 			case NodeKind.IfStmt:
 				return this.ifStmt(stmt as AST.IfStmt);
 			case NodeKind.WhileStmt:
-				return this.whileStmt(stmt as AST.WhileStmt);
+				return this.loop(stmt as AST.WhileStmt, () => this.whileStmt(stmt as AST.WhileStmt));
 			case NodeKind.ForStmt:
-				return this.forStmt(stmt as AST.ForStmt);
+				return this.loop(stmt as AST.ForStmt, () => this.forStmt(stmt as AST.ForStmt));
+			case NodeKind.ForOfStmt:
+				return this.loop(stmt as AST.ForOfStmt, () => this.forOfStmt(stmt as AST.ForOfStmt));
+			case NodeKind.ForInStmt:
+				return this.loop(stmt as AST.ForInStmt, () => this.forInStmt(stmt as AST.ForInStmt));
+			case NodeKind.BreakStmt:
+			case NodeKind.ContinueStmt:
+				return this.jumpStmt(stmt as AST.BreakStmt | AST.ContinueStmt);
+			case NodeKind.SwitchStmt:
+				return this.switchStmt(stmt as AST.SwitchStmt);
 			case NodeKind.ExprStmt:
 				return this.writeln(this.expression((stmt as AST.ExprStmt).expr) + ";");
 			case NodeKind.RecordDeclaration:
 				return this.writeln(`/* struct declaration omitted: ${(stmt as AST.StructDecl).name} */`);
 			case NodeKind.TypeAlias:
 				return this.writeln(`/* typedef omitted: '${(stmt as AST.TypeDef).name}' */`);
+			case NodeKind.ClassDecl:
+				return this.classDecl(stmt as AST.ClassDecl);
+			case NodeKind.EnumDecl:
+				return this.enumDecl(stmt as AST.EnumDecl);
+			case NodeKind.ImportDecl:
+				return this.importDecl(stmt as AST.ImportDecl);
+			case NodeKind.ExportDecl:
+				return this.exportDecl(stmt as AST.ExportDecl);
+			case NodeKind.AmbientDecl:
+				// declared values are defined outside of Ave.
+				return "";
 		}
 
 		throw new Error("Unhandled statement case");
 	}
 
 	private expression(e: AST.Expression): string {
+		return this.mark(e, this.expressionCode(e));
+	}
+
+	private expressionCode(e: AST.Expression): string {
 		switch (e.kind) {
 			case NodeKind.Literal:
 				return this.literal(e as AST.Literal);
+			case NodeKind.TemplateLiteral:
+				return this.templateLiteral(e as AST.TemplateLiteral);
+			case NodeKind.CastExpr:
+				return this.castExp(e as AST.CastExpr);
+			case NodeKind.TypeTestExpr:
+				return this.typeTestExp(e as AST.TypeTestExpr);
+			case NodeKind.SpreadExpr:
+				return "..." + this.expression((e as AST.SpreadExpr).expr);
 			case NodeKind.BinaryExpr:
 				return this.binExpr(e as AST.BinaryExpr);
 			case NodeKind.PrefixUnaryExpr:
@@ -97,26 +218,58 @@ export default class JSGenerator {
 				return this.memAccessExp(e as AST.MemberAccessExpr);
 			case NodeKind.FunctionExpr:
 				return this.funcExpr(e as AST.FunctionExpr);
+			case NodeKind.ThisExpr:
+				return "this";
+			case NodeKind.SuperExpr:
+				return "super";
+			case NodeKind.NewExpr:
+				return this.newExp(e as AST.NewExpr);
+			case NodeKind.MatchExpr:
+				return this.matchExp(e as AST.MatchExpr);
 		}
 
 		throw new Error("unhandled expression case: " + e.kind);
 	}
 
+	// casts only exist at compile time, but the expression being
+	// cast is kept in parentheses, since `a + b as num * 2`
+	// would mean something else in JS without them.
+	private castExp(exp: AST.CastExpr) {
+		const expr = this.expression(exp.expr);
+
+		switch (exp.expr.kind) {
+			case NodeKind.Identifier:
+			case NodeKind.Literal:
+			case NodeKind.TemplateLiteral:
+			case NodeKind.GroupingExpr:
+			case NodeKind.CallExpr:
+			case NodeKind.MemberAcessExpr:
+			case NodeKind.ThisExpr:
+			case NodeKind.CastExpr:
+				return expr;
+		}
+
+		return `(${expr})`;
+	}
+
 	private objExp(exp: AST.ObjectExpr) {
 		let out = "{\n";
 		this.indent();
 		exp.kvPairs.forEach((v, k) => {
-			out += this.writeln(k.raw + ": " + this.expression(v) + ",");
+			if (v.kind == NodeKind.SpreadExpr) out += this.writeln(this.expression(v) + ",");
+			else out += this.writeln(k.raw + ": " + this.expression(v) + ",");
 		});
 		this.dedent();
 		return out + this.write("}");
 	}
 
 	private memAccessExp(exp: AST.MemberAccessExpr) {
+		const dot = exp.isOptional ? "?." : ".";
 		if (exp.isIndexed) {
-			return `${this.expression(exp.object)}[${this.expression(exp.property)}]`;
+			const access = exp.isOptional ? "?.[" : "[";
+			return `${this.expression(exp.object)}${access}${this.expression(exp.property)}]`;
 		}
-		return `${this.expression(exp.object)}.${this.expression(exp.property)}`;
+		return `${this.expression(exp.object)}${dot}${this.expression(exp.property)}`;
 	}
 
 	private arrayExp(exp: AST.ArrayExpr) {
@@ -131,7 +284,101 @@ export default class JSGenerator {
 	}
 
 	private callExp(exp: AST.CallExpr) {
-		return `${this.expression(exp.callee)}(${exp.args.map(e => this.expression(e)).join(", ")})`;
+		const call = exp.isOptional ? "?.(" : "(";
+		return `${this.expression(exp.callee)}${call}${exp.args
+			.map(e => this.expression(e))
+			.join(", ")})`;
+	}
+
+	private newExp(exp: AST.NewExpr) {
+		return `new ${this.expression(exp.callee)}(${exp.args
+			.map(e => this.expression(e))
+			.join(", ")})`;
+	}
+
+	// match expressions are compiled to an immediately invoked
+	// arrow function, the subject is evaluated only once.
+	private matchExp(exp: AST.MatchExpr) {
+		const subject = "$$m";
+		let out = `((${subject}) => {\n`;
+		this.indent();
+
+		for (const arm of exp.arms) {
+			const body = this.expression(arm.body);
+			if (!arm.pattern) {
+				out += this.writeln(`return ${body};`);
+			} else if (arm.pattern instanceof AST.TypeInfo) {
+				out += this.writeln(`if (${this.typeTest(subject, arm.pattern.type)}) return ${body};`);
+			} else {
+				out += this.writeln(`if (${subject} === ${this.expression(arm.pattern)}) return ${body};`);
+			}
+		}
+
+		this.dedent();
+		return out + this.write(`})(${this.expression(exp.subject)})`);
+	}
+
+	// the tested value is evaluated once, tests that use it more than
+	// once are wrapped in a function unless the value is a variable.
+	private typeTestExp(exp: AST.TypeTestExpr) {
+		const value = this.expression(exp.expr);
+		const isVariable = exp.expr.kind == NodeKind.Identifier || exp.expr.kind == NodeKind.ThisExpr;
+		const test = this.typeTest(isVariable ? value : "$$v", exp.typeInfo.type);
+
+		if (!isVariable) return `(($$v) => ${test})(${value})`;
+		return test.indexOf(" && ") == -1 ? test : `(${test})`;
+	}
+
+	/**
+	 * Returns a JS expression that checks if `value` is of the type `type` at runtime.
+	 * Object types are tested by their shape, only checking if the properties exist.
+	 * @param value A JS expression.
+	 * @param type  The type to test for.
+	 */
+	private typeTest(value: string, type: Typing.Type): string {
+		// prettier-ignore
+		switch (type) {
+			case Typing.t_number: return `typeof ${value} === "number"`;
+			case Typing.t_string: return `typeof ${value} === "string"`;
+			case Typing.t_bool:   return `typeof ${value} === "boolean"`;
+			case Typing.t_nil:    return `${value} === null`;
+			case Typing.t_undef:  return `${value} === undefined`;
+			case Typing.t_any:    return "true";
+		}
+
+		if (type instanceof UnionType) {
+			return `(${type.types.map(t => this.typeTest(value, t)).join(" || ")})`;
+		}
+
+		const arrayArgs = t_Array.typeArgsOf(type);
+		if (arrayArgs) {
+			const elementType = arrayArgs[0];
+			if (elementType == Typing.t_any) return `Array.isArray(${value})`;
+			return `Array.isArray(${value}) && ${value}.every(e => ${this.typeTest("e", elementType)})`;
+		}
+
+		if (type instanceof TupleType) {
+			return [`Array.isArray(${value})`, `${value}.length === ${type.length}`]
+				.concat(type.elementTypes.map((t, i) => this.typeTest(`${value}[${i}]`, t)))
+				.join(" && ");
+		}
+
+		if (type instanceof InstanceType) return `${value} instanceof ${type.classType.name}`;
+		if (type instanceof FunctionType) return `typeof ${value} === "function"`;
+
+		if (type instanceof EnumType) {
+			return `Object.keys(${type.name}).some(k => ${type.name}[k] === ${value})`;
+		}
+
+		if (type instanceof ObjectType) {
+			const keys = Array.from(type.properties.keys());
+			return [`typeof ${value} === "object"`, `${value} !== null`]
+				.concat(keys.map(k => `"${k}" in ${value}`))
+				.join(" && ");
+		}
+
+		// the checker reports tests for any other type.
+		throw new Error(`cannot test for type '${type}' at runtime.`);
 	}
 
 	private unExpr(exp: AST.PrefixUnaryExpr | AST.PostfixUnaryExpr) {
@@ -151,10 +398,25 @@ export default class JSGenerator {
 			return `Math.floor(${this.expression(exp.left)} / ${this.expression(exp.right)})`;
 		}
 
+		if (exp.operator.type == TType.QUESTION_QUESTION) return this.nilCoalesceExp(exp);
+
 		const op = this.binOp(exp.operator);
 		return `${this.expression(exp.left)} ${op} ${this.expression(exp.right)}`;
 	}
 
+	// JS doesn't allow mixing '??' with '||' and '&&'
+	// without parentheses, so they are added when needed.
+	private nilCoalesceExp(exp: AST.BinaryExpr) {
+		const operand = (e: AST.Expression) => {
+			const js = this.expression(e);
+			if (e.kind != NodeKind.BinaryExpr) return js;
+			const op = (e as AST.BinaryExpr).operator.type;
+			return op == TType.OR || op == TType.AND ? `(${js})` : js;
+		};
+
+		return `${operand(exp.left)} ?? ${operand(exp.right)}`;
+	}
+
 	private binOp(t: Token): string {
 		// prettier-ignore
 		switch (t.type) {
@@ -177,6 +439,17 @@ export default class JSGenerator {
 		return e.value + "";
 	}
 
+	private templateLiteral(e: AST.TemplateLiteral): string {
+		// backticks have to be escaped inside JS template strings.
+		const escape = (str: string) => str.replace(/\\?`/g, "\\`");
+
+		let out = "`" + escape(e.strings[0]);
+		e.expressions.forEach((expr, i) => {
+			out += "${" + this.expression(expr) + "}" + escape(e.strings[i + 1]);
+		});
+		return out + "`";
+	}
+
 	private body(node: AST.Body): string {
 		let out = this.writeln("{");
 		out += this.statements(node);
@@ -241,6 +514,30 @@ export default class JSGenerator {
 		return stmt.statements.length == 1 && stmt.statements[0].kind == NodeKind.IfStmt;
 	}
 
+	// generates a loop with `generate`, preceded by the loop's label if it has one.
+	private loop(stmt: AST.LoopStmt, generate: () => string) {
+		const loop: EnclosingLoop = { label: stmt.label ? stmt.label.name : null, switchDepth: 0 };
+		this.loops.push(loop);
+		const code = generate();
+		this.loops.pop();
+
+		return loop.label ? this.writeln(`${loop.label}:`) + code : code;
+	}
+
+	private jumpStmt(stmt: AST.BreakStmt | AST.ContinueStmt) {
+		const keyword = stmt.kind == NodeKind.BreakStmt ? "break" : "continue";
+		let label = stmt.label ? stmt.label.name : null;
+
+		// inside a switch, a Javascript 'break' would exit the switch instead of the loop.
+		const loop = this.loops[this.loops.length - 1];
+		if (!label && stmt.kind == NodeKind.BreakStmt && loop && loop.switchDepth > 0) {
+			if (!loop.label) loop.label = `$$loop${this.loops.length}`;
+			label = loop.label;
+		}
+
+		return this.writeln(label ? `${keyword} ${label};` : `${keyword};`);
+	}
+
 	private whileStmt(stmt: AST.WhileStmt) {
 		let out = this.writeln("while(");
 		out += this.expression(stmt.condition) + ") {\n";
@@ -265,6 +562,68 @@ export default class JSGenerator {
 		return out;
 	}
 
+	private forOfStmt(stmt: AST.ForOfStmt) {
+		let out = this.writeln(
+			`for (let ${stmt.iterator.name} of ${this.expression(stmt.iterable)}) {`
+		);
+		out += this.statements(stmt.body);
+		out += this.writeln("}");
+		return out;
+	}
+
+	private forInStmt(stmt: AST.ForInStmt) {
+		let out = this.writeln(`for (let ${stmt.iterator.name} in ${this.expression(stmt.object)}) {`);
+		out += this.statements(stmt.body);
+		out += this.writeln("}");
+		return out;
+	}
+
+	private switchStmt(stmt: AST.SwitchStmt) {
+		let out = this.writeln(`switch (${this.expression(stmt.discriminant)}) {`);
+		this.indent();
+		const loop = this.loops[this.loops.length - 1];
+		if (loop) loop.switchDepth++;
+
+		for (const switchCase of stmt.cases) {
+			if (switchCase.isDefault) {
+				out += this.writeln("default: {");
+			} else {
+				const tests = switchCase.tests;
+				for (let i = 0; i < tests.length - 1; i++) {
+					out += this.writeln(`case ${this.expression(tests[i])}:`);
+				}
+				out += this.writeln(`case ${this.expression(tests[tests.length - 1])}: {`);
+			}
+
+			out += this.statements(switchCase.body);
+
+			// cases don't fall through unless 'fall' is used.
+			if (!switchCase.fallsThrough && !this.endsWithJump(switchCase.body)) {
+				this.indent();
+				out += this.writeln("break;");
+				this.dedent();
+			}
+
+			out += this.writeln("}");
+		}
+
+		if (loop) loop.switchDepth--;
+		this.dedent();
+		return out + this.writeln("}");
+	}
+
+	// returns true if the last statement in the
+	// body transfers control out of it.
+	private endsWithJump(body: AST.Body) {
+		const last = body.statements[body.statements.length - 1];
+		if (last == undefined) return false;
+		return (
+			last.kind == NodeKind.ReturnStmt ||
+			last.kind == NodeKind.BreakStmt ||
+			last.kind == NodeKind.ContinueStmt
+		);
+	}
+
 	private funcDecl(stmt: AST.FunctionDeclaration) {
 		return (
 			"\n" +
@@ -280,9 +639,105 @@ export default class JSGenerator {
 	}
 
 	private param(e: AST.FunctionParam) {
-		let out = e.name;
+		let out = e.isRest ? "..." + e.name : e.name;
 		if (e.defaultValue) {
-			out += this.expression(e.defaultValue);
+			out += " = " + this.expression(e.defaultValue);
+		}
+		return out;
+	}
+
+	private classDecl(decl: AST.ClassDecl) {
+		const base = decl.superClass ? ` extends ${decl.superClass.name}` : "";
+		let out = this.writeln(`class ${decl.name}${base} {`);
+		this.indent();
+
+		// instance fields are initialized at the start of the constructor,
+		// or right after the call to 'super' in derived classes.
+		const fields = decl.properties.filter(p => !p.isStatic && p.value);
+		if (decl.ctor) {
+			out += this.writeln(`constructor(${this.funcParams(decl.ctor)}) {`);
+			this.indent();
+			if (!decl.superClass) out += this.fieldInitializers(fields);
+			for (const stmt of decl.ctor.body.statements) {
+				out += this.statement(stmt);
+				if (AST.isSuperCall(stmt)) out += this.fieldInitializers(fields);
+			}
+			this.dedent();
+			out += this.writeln("}");
+		} else if (fields.length) {
+			out += this.writeln(`constructor(${decl.superClass ? "...args" : ""}) {`);
+			this.indent();
+			if (decl.superClass) out += this.writeln("super(...args);");
+			out += this.fieldInitializers(fields);
+			this.dedent();
+			out += this.writeln("}");
+		}
+
+		for (const method of decl.methods) {
+			const { lambda } = method;
+			out += this.writeln(
+				`${method.isStatic ? "static " : ""}${method.name.raw}(${this.funcParams(lambda)}) {`
+			);
+			out += this.statements(lambda.body);
+			out += this.writeln("}");
+		}
+
+		this.dedent();
+		out += this.writeln("}");
+
+		// static properties are assigned after the class body.
+		for (const prop of decl.properties) {
+			if (!prop.isStatic || !prop.value) continue;
+			out += this.writeln(`${decl.name}.${prop.name.raw} = ${this.expression(prop.value)};`);
+		}
+
+		return out;
+	}
+
+	private importDecl(decl: AST.ImportDecl) {
+		// names that only refer to types don't exist at runtime.
+		const names = decl.names
+			.map(id => id.name)
+			.filter(name => !decl.exports || decl.exports.get(name)?.type);
+
+		if (!names.length) return "";
+
+		const path = compiledImportPath(decl.source);
+		if (this.moduleFormat == "commonjs") {
+			return this.writeln(`const { ${names.join(", ")} } = require(${JSON.stringify(path)});`);
+		}
+		return this.writeln(`import { ${names.join(", ")} } from ${JSON.stringify(path)};`);
+	}
+
+	private exportDecl(decl: AST.ExportDecl) {
+		const code = this.statement(decl.declaration);
+		const kind = decl.declaration.kind;
+		if (kind == NodeKind.TypeAlias || kind == NodeKind.RecordDeclaration) return code;
+
+		if (this.moduleFormat == "commonjs") {
+			return code + decl.names.map(name => this.writeln(`exports.${name} = ${name};`)).join("");
+		}
+
+		// insert the keyword after any leading blank lines and position markers.
+		return code.replace(leadingPattern, leading => leading + "export ");
+	}
+
+	private enumDecl(decl: AST.EnumDecl) {
+		let out = this.writeln(`const ${decl.name} = Object.freeze({`);
+		this.indent();
+		for (const member of decl.members) {
+			out += this.writeln(`${member.name.raw}: ${JSON.stringify(member.value)},`);
+		}
+		this.dedent();
+		return out + this.writeln("});");
+	}
+
+	private fieldInitializers(fields: AST.ClassProperty[]) {
+		let out = "";
+		for (const field of fields) {
+			out += this.writeln(
+				`this.${field.name.raw} = ${this.expression(field.value as AST.Expression)};`
+			);
 		}
 		return out;
 	}
@@ -300,3 +755,10 @@ export default class JSGenerator {
 		return `function (${this.funcParams(fun)}) ${this.body(fun.body)}`;
 	}
 }
+
+// returns the position after `text`, when it is written at `position`.
+function advance(position: Position, text: string): Position {
+	const lines = text.split("\n");
+	if (lines.length == 1) return { line: position.line, column: position.column + text.length };
+	return { line: position.line + lines.length - 1, column: lines[lines.length - 1].length };
+}
@@ -0,0 +1,102 @@
+// Source maps (https://sourcemaps.info/spec.html) map positions in the
+// generated Javascript back to positions in the Ave source file.
+
+const base64Digits = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// zero based line and column numbers.
+export interface Position {
+	line: number;
+	column: number;
+}
+
+interface Mapping {
+	generated: Position;
+	original: Position;
+}
+
+/**
+ * Encodes a number as a base 64 VLQ. The sign is stored in the lowest bit,
+ * and every digit holds 5 bits of the value, with the 6th bit set
+ * if there are more digits to follow.
+ * @param {number} value The number to encode.
+ */
+export function encodeVLQ(value: number): string {
+	let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+	let encoded = "";
+
+	do {
+		let digit = vlq & 0b11111;
+		vlq >>>= 5;
+		if (vlq > 0) digit |= 0b100000;
+		encoded += base64Digits[digit];
+	} while (vlq > 0);
+
+	return encoded;
+}
+
+/**
+ * A version 3 source map of one generated file, that
+ * was compiled from a single source file.
+ */
+export default class SourceMap {
+	private readonly mappings: Mapping[] = [];
+
+	/**
+	 * @param {string} file Name of the generated file.
+	 * @param {string} sourceContent Contents of the source file, these are
+	 * included in the map so that debuggers can show them without the file.
+	 */
+	constructor(public readonly file: string, public readonly sourceContent: string) {}
+
+	// mappings must be added in the order they appear in the generated code.
+	public addMapping(generated: Position, original: Position) {
+		this.mappings.push({ generated, original });
+	}
+
+	/**
+	 * Returns the source map as JSON.
+	 * @param {string} sourcePath Path to the source file, relative to the map.
+	 */
+	public toJSON(sourcePath: string): string {
+		return JSON.stringify({
+			version: 3,
+			file: this.file,
+			sources: [sourcePath],
+			sourcesContent: [this.sourceContent],
+			names: [],
+			mappings: this.encodeMappings(),
+		});
+	}
+
+	// Lines of the generated code are separated by ';', and the segments of
+	// a line by ','. Each segment has the generated column, the source index,
+	// the source line and the source column, each relative to the previous segment.
+	// The generated column is relative to the previous segment on the same line.
+	private encodeMappings(): string {
+		let encoded = "";
+		let line = 0;
+		let previousColumn = 0;
+		let previousOriginal: Position = { line: 0, column: 0 };
+
+		for (const { generated, original } of this.mappings) {
+			if (generated.line > line) {
+				encoded += ";".repeat(generated.line - line);
+				line = generated.line;
+				previousColumn = 0;
+			} else if (encoded && !encoded.endsWith(";")) {
+				encoded += ",";
+			}
+
+			encoded +=
+				encodeVLQ(generated.column - previousColumn) +
+				encodeVLQ(0) +
+				encodeVLQ(original.line - previousOriginal.line) +
+				encodeVLQ(original.column - previousOriginal.column);
+
+			previousColumn = generated.column;
+			previousOriginal = original;
+		}
+
+		return encoded;
+	}
+}
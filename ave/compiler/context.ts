@@ -1,14 +1,399 @@
+import fs = require("fs");
+import path = require("path");
+import Lexer from "../lexer/lexer";
+import Token from "../lexer/token";
+import AveParser from "../parser/aveparser";
+import { ParsedData } from "../parser/parser";
+import * as AST from "../parser/ast/ast";
+import NodeKind = require("../parser/ast/nodekind");
+import Binder from "../checker/type-binder";
+import Checker from "../checker/checker";
+import JSGenerator from "./codegen/gen";
+import DeclarationGenerator from "./codegen/dts-gen";
+import SourceMap from "./codegen/sourcemap";
+import { errorFromToken, ErrorReportFn, ErrorType } from "../error/error";
+import { throwError } from "../error/reporter";
+import Declaration from "../type/declaration";
 import { Type } from "../type/types";
+import readDeclarationFile from "./declarations/dts-reader";
+import { CompilerOptions, defaultOptions } from "./options";
+import { isRelativeImport } from "../util/util";
 
-type Export = { name: string; type: Type };
+// files with this extension only contain declarations, and are
+// visible to every module without being imported.
+const declarationFileExt = ".decl.ave";
+// Typescript declaration files, that describe Javascript modules.
+const tsDeclarationFileExt = ".d.ts";
 
-interface Module {
+// the contents of all declaration files in the source directory.
+interface Globals {
+	declarations: Declaration[];
+	types: Map<string, Type>;
+	hasError: boolean;
+}
+
+export interface Module {
+	// absolute path to the source file.
 	name: string;
-	// unused:
-	exports: Export[];
-	defaultExport: Export;
+	exports: Map<string, AST.ModuleExport>;
+	// absolute paths of the modules imported by this module.
+	imports: string[];
+	// the generated Javascript, empty if the module has errors.
+	code: string;
+	// the generated Typescript declarations, empty
+	// unless declarations are emitted by the context.
+	declarations: string;
+	// maps the generated code to the source file, null
+	// unless source maps are generated by the context.
+	sourceMap: SourceMap | null;
+	hasError: boolean;
+	// set while the module's imports are being compiled,
+	// this is used to detect circular imports.
+	isCompiling: boolean;
 }
 
+/**
+ * Compiles `.ave` files along with the modules they import. Every
+ * module is compiled only once, after all the modules it imports,
+ * so that the types of the imported names are known when checking it.
+ */
 export default class CompilationContext {
-	// TODO
+	// imports are resolved within this directory.
+	private readonly rootDir: string;
+	// the module format, the libraries available to the checker,
+	// and whether declarations and source maps are generated.
+	private readonly options: CompilerOptions;
+	private readonly reportError: ErrorReportFn;
+	private readonly modules: Map<string, Module> = new Map();
+	// loaded when the first module is compiled.
+	private globals: Globals | null = null;
+
+	/**
+	 * @param rootDir {string} directory containing the source files.
+	 * @param options {Partial<CompilerOptions>} options that are not given have their default values.
+	 * @param reportErr {ErrorReportFn} called with every error in the compiled files.
+	 */
+	constructor(rootDir: string, options: Partial<CompilerOptions> = {}, reportErr?: ErrorReportFn) {
+		this.rootDir = path.resolve(rootDir);
+		this.options = { ...defaultOptions, ...options };
+		this.reportError = reportErr || throwError;
+	}
+
+	/**
+	 * Compiles the file at `filePath` and the modules it imports. If the
+	 * file has already been compiled, the cached module is returned.
+	 * @param filePath {string} path to the `.ave` file.
+	 * @param source {string} contents of the file, read from the disk if not given.
+	 */
+	public compile(filePath: string, source?: string): Module {
+		const name = path.resolve(filePath);
+
+		const cached = this.modules.get(name);
+		if (cached) return cached;
+
+		const module: Module = {
+			name,
+			exports: new Map(),
+			imports: [],
+			code: "",
+			declarations: "",
+			sourceMap: null,
+			hasError: false,
+			isCompiling: true,
+		};
+
+		this.modules.set(name, module);
+		const isTsDeclarationFile = name.endsWith(tsDeclarationFileExt);
+		module.hasError = !(isTsDeclarationFile
+			? this.readDeclarations(module)
+			: this.build(module, source));
+		module.isCompiling = false;
+
+		return module;
+	}
+
+	/**
+	 * Removes the module compiled from `filePath` from the cache, along with
+	 * the modules that import it, so that they are compiled again the next time.
+	 * Modules with errors are removed as well, since the change may fix them.
+	 * If `filePath` is a declaration file, all the modules are removed.
+	 * Returns the paths of the removed modules.
+	 * @param filePath {string} path to the changed file.
+	 */
+	public invalidate(filePath: string): string[] {
+		const name = path.resolve(filePath);
+
+		if (name.endsWith(declarationFileExt)) {
+			const names = Array.from(this.modules.keys());
+			this.modules.clear();
+			this.globals = null;
+			return names;
+		}
+
+		const removed: string[] = [];
+		const remove = (moduleName: string) => {
+			if (!this.modules.delete(moduleName)) return;
+			removed.push(moduleName);
+
+			this.modules.forEach(module => {
+				if (module.imports.indexOf(moduleName) != -1) remove(module.name);
+			});
+		};
+
+		remove(name);
+		this.modules.forEach(module => {
+			if (module.hasError) remove(module.name);
+		});
+
+		return removed;
+	}
+
+	private build(module: Module, source?: string): boolean {
+		const fileName = path.relative(process.cwd(), module.name);
+		if (source == undefined) source = fs.readFileSync(module.name, { encoding: "utf-8" });
+
+		const lexed = new Lexer(fileName, source, this.reportError).lex();
+		if (lexed.hasError) return false;
+
+		const parseData = new AveParser(lexed, this.reportError).parse();
+		if (parseData.hasError) return false;
+
+		if (!this.resolveImports(module, parseData)) return false;
+
+		const globals = this.loadGlobals();
+		if (globals.hasError) return false;
+
+		const body = parseData.ast.body;
+		body.declarations.push(...globals.declarations);
+		globals.types.forEach((type, name) => body.bindType(name, type));
+
+		new Binder(parseData, this.reportError, this.options.lib).bind();
+		if (parseData.ast.hasError) return false;
+
+		const checked = new Checker(parseData, this.reportError, this.options).check();
+		if (checked.hasError) return false;
+
+		this.collectExports(parseData.ast, module.exports);
+		const generator = new JSGenerator(parseData.ast, this.options.module);
+		if (this.options.sourceMap) {
+			// the compiled file has the same name as the source file.
+			const file = path.basename(module.name).replace(/\.ave$/, ".js");
+			const { code, sourceMap } = generator.generateJSWithSourceMap(file, source);
+			module.code = code + `//# sourceMappingURL=${file}.map\n`;
+			module.sourceMap = sourceMap;
+		} else {
+			module.code = generator.generateJS();
+		}
+
+		if (this.options.declaration) {
+			module.declarations = new DeclarationGenerator(parseData.ast).generateDeclarations();
+		}
+		return true;
+	}
+
+	// Typescript declaration files only have exports, the
+	// code of the module they describe is written in Javascript.
+	private readDeclarations(module: Module): boolean {
+		const exports = readDeclarationFile(module.name, this.reportError, this.options.lib);
+		if (!exports) return false;
+
+		exports.forEach((symbol, name) => module.exports.set(name, symbol));
+		return true;
+	}
+
+	// compiles the modules imported by a file, and makes their
+	// exports visible to the import declarations.
+	private resolveImports(module: Module, parseData: ParsedData): boolean {
+		let ok = true;
+
+		for (const stmt of parseData.ast.body.statements) {
+			if (stmt.kind != NodeKind.ImportDecl) continue;
+
+			const decl = stmt as AST.ImportDecl;
+			const target = this.resolvePath(decl.source, path.dirname(module.name));
+
+			// modules that cannot be found are reported by the checker.
+			if (!target) continue;
+
+			const isAveModule = !target.endsWith(tsDeclarationFileExt);
+			if (isAveModule && path.relative(this.rootDir, target).startsWith("..")) {
+				this.error(
+					`Cannot import '${decl.source}', it is outside the source directory.`,
+					decl.path,
+					parseData
+				);
+				ok = false;
+				continue;
+			}
+
+			module.imports.push(target);
+			const imported = this.compile(target);
+
+			if (imported.isCompiling) {
+				this.error(`Circular import of '${decl.source}'.`, decl.path, parseData);
+				ok = false;
+			} else if (imported.hasError) {
+				// the errors have already been reported.
+				ok = false;
+			} else {
+				decl.exports = imported.exports;
+			}
+		}
+
+		return ok;
+	}
+
+	// returns the file that an import like "./math" or "lodash" refers to,
+	// or null if there is no such file. Relative imports refer to '.ave'
+	// files, or to '.d.ts' files describing Javascript modules. Package
+	// imports refer to the type declarations of an installed package.
+	private resolvePath(source: string, dir: string): string | null {
+		if (!isRelativeImport(source)) return findPackageTypes(source, dir);
+
+		const filePath = path.resolve(dir, source);
+		if (path.extname(filePath) == ".ave") return isFile(filePath) ? filePath : null;
+
+		const candidates = [filePath + ".ave", filePath.replace(/\.js$/, "") + tsDeclarationFileExt];
+		return candidates.find(isFile) || null;
+	}
+
+	private loadGlobals(): Globals {
+		if (this.globals) return this.globals;
+
+		const globals: Globals = { declarations: [], types: new Map(), hasError: false };
+		this.globals = globals;
+
+		for (const filePath of findDeclarationFiles(this.rootDir, path.resolve(this.options.out))) {
+			const parseData = this.parseDeclarationFile(filePath);
+			if (!parseData) {
+				globals.hasError = true;
+				continue;
+			}
+
+			const body = parseData.ast.body;
+			globals.declarations.push(...body.declarations);
+			body.types.forEach((type, name) => globals.types.set(name, type));
+		}
+
+		return globals;
+	}
+
+	private parseDeclarationFile(filePath: string): ParsedData | null {
+		const fileName = path.relative(process.cwd(), filePath);
+		const source = fs.readFileSync(filePath, { encoding: "utf-8" });
+
+		const lexed = new Lexer(fileName, source, this.reportError).lex();
+		if (lexed.hasError) return null;
+
+		const parseData = new AveParser(lexed, this.reportError).parse();
+		if (parseData.hasError) return null;
+
+		for (const stmt of parseData.ast.body.statements) {
+			switch (stmt.kind) {
+				case NodeKind.AmbientDecl:
+				case NodeKind.RecordDeclaration:
+				case NodeKind.TypeAlias:
+					break;
+				default:
+					this.error(
+						"Declaration files can only contain 'declare' statements, structs and type aliases.",
+						stmt.token as Token,
+						parseData,
+						ErrorType.SyntaxError
+					);
+			}
+		}
+
+		if (parseData.ast.hasError) return null;
+
+		new Binder(parseData, this.reportError, this.options.lib).bind();
+		return parseData.ast.hasError ? null : parseData;
+	}
+
+	private collectExports(ast: AST.Program, exports: Map<string, AST.ModuleExport>) {
+		for (const stmt of ast.body.statements) {
+			if (stmt.kind != NodeKind.ExportDecl) continue;
+
+			const decl = stmt as AST.ExportDecl;
+			for (const name of decl.names) {
+				exports.set(name, {
+					name,
+					type: decl.types.get(name) || null,
+					boundType: decl.boundTypes.get(name) || null,
+				});
+			}
+		}
+	}
+
+	private error(
+		message: string,
+		token: Token,
+		parseData: ParsedData,
+		errType: ErrorType = ErrorType.ReferenceError
+	) {
+		const err = errorFromToken(token, message, parseData.fileName, errType);
+		parseData.ast.hasError = true;
+		this.reportError(err, parseData.sourceCode);
+	}
+}
+
+function isFile(filePath: string): boolean {
+	return fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+}
+
+// finds the type declarations of an installed package, in the 'node_modules'
+// directories above `dir`. The declarations are looked for in the package,
+// and then in the package's '@types' package.
+function findPackageTypes(name: string, dir: string): string | null {
+	// the types of "@scope/pkg" are in "@types/scope__pkg".
+	const typesName = name.startsWith("@") ? name.slice(1).replace("/", "__") : name;
+
+	for (let current = dir; ; current = path.dirname(current)) {
+		const modulesDir = path.join(current, "node_modules");
+		const packageDir = path.join(modulesDir, name);
+		const typesDir = path.join(modulesDir, "@types", typesName);
+
+		const candidates = [
+			packageTypesField(packageDir),
+			packageDir + tsDeclarationFileExt,
+			path.join(packageDir, "index.d.ts"),
+			packageTypesField(typesDir),
+			path.join(typesDir, "index.d.ts"),
+		];
+
+		const found = candidates.find(filePath => filePath && isFile(filePath));
+		if (found) return found;
+		if (path.dirname(current) == current) return null;
+	}
+}
+
+// returns the file named by the "types" field of a package's 'package.json'.
+function packageTypesField(packageDir: string): string | null {
+	const manifestPath = path.join(packageDir, "package.json");
+	if (!isFile(manifestPath)) return null;
+
+	try {
+		const manifest = JSON.parse(fs.readFileSync(manifestPath, { encoding: "utf-8" }));
+		const types = manifest.types || manifest.typings;
+		return typeof types == "string" ? path.join(packageDir, types) : null;
+	} catch {
+		return null;
+	}
+}
+
+// finds all declaration files in a directory and it's sub directories.
+// installed packages, hidden directories and the output directory are not searched.
+function findDeclarationFiles(dir: string, outDir: string, files: string[] = []): string[] {
+	for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			if (!isSkippedDir(entry.name, entryPath, outDir))
+				findDeclarationFiles(entryPath, outDir, files);
+		} else if (entry.name.endsWith(declarationFileExt)) files.push(entryPath);
+	}
+	return files;
+}
+
+function isSkippedDir(name: string, dirPath: string, outDir: string): boolean {
+	return name == "node_modules" || name.startsWith(".") || dirPath == outDir;
 }
@@ -0,0 +1,1143 @@
+import fs = require("fs");
+import path = require("path");
+import TT = require("../../lexer/tokentype");
+import Token from "../../lexer/token";
+import * as AST from "../../parser/ast/ast";
+import { ParsedData } from "../../parser/parser";
+import { DeclarationKind } from "../../parser/symbol_table/symtable";
+import Binder from "../../checker/type-binder";
+import loadPrelude, { Prelude } from "../../checker/prelude";
+import { defaultOptions } from "../options";
+import { AveError, errorFromToken, ErrorReportFn } from "../../error/error";
+import { throwError } from "../../error/reporter";
+import FunctionType, { ParameterTypeInfo } from "../../type/function-type";
+import GenericType, {
+	GenericFunctionType,
+	GenericInstance,
+	t_Array,
+} from "../../type/generic-type";
+import ObjectType from "../../type/object-type";
+import TupleType from "../../type/tuple-type";
+import * as Typing from "../../type/types";
+import UnionType from "../../type/union-type";
+
+/*
+  Reads the subset of Typescript declaration files (`.d.ts`) that has
+  an equivalent in Ave: interfaces, type aliases, functions, variables,
+  unions, tuples and generic types. Interfaces become structs, and the
+  declarations are bound by the Ave type binder, so the names a file
+  declares can be imported like the exports of an Ave module.
+
+  Everything else (classes, namespaces, intersections, mapped and
+  conditional types etc.) is skipped, or read as `any`.
+*/
+
+// prettier-ignore
+const primitiveTypes: Map<string, Typing.Type> = new Map([
+	["string"   , Typing.t_string],
+	["number"   , Typing.t_number],
+	["boolean"  , Typing.t_bool  ],
+	["void"     , Typing.t_void  ],
+	["undefined", Typing.t_undef ],
+	["null"     , Typing.t_nil   ],
+	["never"    , Typing.t_bottom],
+	["any"      , Typing.t_any   ],
+	["unknown"  , Typing.t_any   ],
+	["object"   , Typing.t_any   ],
+	["symbol"   , Typing.t_any   ],
+	["bigint"   , Typing.t_any   ],
+	["this"     , Typing.t_any   ],
+]);
+
+// prettier-ignore
+const punctuation: Map<string, TT> = new Map([
+	["...", TT.SPREAD   ], ["=>", TT.ARROW    ],
+	["{"  , TT.L_BRACE  ], ["}" , TT.R_BRACE  ],
+	["("  , TT.L_PAREN  ], [")" , TT.R_PAREN  ],
+	["["  , TT.L_SQ_BRACE], ["]", TT.R_SQ_BRACE],
+	["<"  , TT.LESS     ], [">" , TT.GREATER  ],
+	[","  , TT.COMMA    ], [";" , TT.SEMI_COLON],
+	[":"  , TT.COLON    ], ["?" , TT.QUESTION ],
+	["|"  , TT.PIPE     ], ["&" , TT.AMP      ],
+	["."  , TT.DOT      ], ["=" , TT.EQ       ],
+	["*"  , TT.STAR     ], ["-" , TT.MINUS    ],
+	["+"  , TT.PLUS     ], ["!" , TT.BANG     ],
+	["@"  , TT.AT       ],
+]);
+
+// keywords that begin a declaration, used to find where
+// a skipped statement ends when it has no ';'.
+const declarationKeywords = new Set([
+	"export",
+	"declare",
+	"interface",
+	"type",
+	"function",
+	"const",
+	"let",
+	"var",
+	"import",
+	"class",
+	"namespace",
+	"module",
+	"enum",
+	"abstract",
+]);
+
+// a type argument of an `extends` clause, read again wherever
+// the type parameter it is passed for appears.
+interface TypeArgument {
+	// index of the argument's first token.
+	start: number;
+	substitution: Substitution;
+}
+
+// maps type parameters to their arguments. Parameters that have
+// no argument and no default type map to `null`, and are read as `any`.
+type Substitution = Map<string, TypeArgument | null>;
+
+// called with every property of an interface or object type.
+type MemberFn = (name: Token, type: Typing.Type, isOptional: boolean) => void;
+
+interface HeritageClause {
+	name: string;
+	args: number[];
+}
+
+// a type parameter, and the index of the first token of its default type.
+interface TypeParamInfo {
+	type: Typing.PlaceHolderType;
+	defaultStart: number | null;
+}
+
+interface InterfaceInfo {
+	decl: AST.StructDecl;
+	typeParams: TypeParamInfo[];
+	// index of the first token of every body of the interface, since
+	// an interface can be declared more than once.
+	bodies: number[];
+	bases: HeritageClause[];
+	memberNames: Set<string>;
+}
+
+/**
+ * Reads the declarations in a `.d.ts` file, and returns them as the
+ * exports of a module. Returns `null` if the file has errors.
+ * @param filePath {string} path to the `.d.ts` file.
+ * @param reportErr {ErrorReportFn} called with every error in the file.
+ * @param libs {string[]} names of the built-in libraries whose types can be used.
+ */
+export default function readDeclarationFile(
+	filePath: string,
+	reportErr?: ErrorReportFn,
+	libs: string[] = defaultOptions.lib
+): Map<string, AST.ModuleExport> | null {
+	const fileName = path.relative(process.cwd(), filePath);
+	const source = fs.readFileSync(filePath, { encoding: "utf-8" });
+	const reportError = reportErr || throwError;
+
+	const tokens = new DtsScanner(fileName, source, reportError).scan();
+	if (!tokens) return null;
+
+	const prelude = loadPrelude(libs);
+	const parseData = new DtsParser(fileName, source, tokens, reportError, prelude).parse();
+	if (parseData.hasError) return null;
+
+	new Binder(parseData, reportError, libs).bind();
+	if (parseData.ast.hasError) return null;
+
+	// every declaration in a declaration file is exported.
+	const exports: Map<string, AST.ModuleExport> = new Map();
+	const body = parseData.ast.body;
+
+	for (const stmt of body.statements) {
+		const name = (stmt as AST.TypeNode | AST.AmbientDecl).name;
+		const symbol = exports.get(name) || { name, type: null, boundType: null };
+
+		if (stmt instanceof AST.AmbientDecl) symbol.type = stmt.typeInfo.type;
+		else symbol.boundType = body.findType(name);
+
+		exports.set(name, symbol);
+	}
+
+	return exports;
+}
+
+class DtsScanner {
+	private readonly fileName: string;
+	private readonly source: string;
+	private readonly reportError: ErrorReportFn;
+	private readonly tokens: Token[] = [];
+	private current = 0;
+	private line = 1;
+	private lineStart = 0;
+
+	constructor(fileName: string, source: string, reportErr: ErrorReportFn) {
+		this.fileName = fileName;
+		this.source = source;
+		this.reportError = reportErr;
+	}
+
+	scan(): Token[] | null {
+		while (this.skipWhitespace() < this.source.length) {
+			const start = this.current;
+			const c = this.source[start];
+
+			if (/[A-Za-z_$]/.test(c)) {
+				this.current = this.scanWhile(start + 1, /[\w$]/);
+				this.addToken(TT.NAME, start);
+			} else if (/[0-9]/.test(c)) {
+				this.current = this.scanWhile(start + 1, /[\w.]/);
+				this.addToken(TT.LITERAL_NUM, start, Number(this.source.substring(start, this.current)));
+			} else if (c == '"' || c == "'" || c == "`") {
+				if (!this.scanString(c)) return null;
+			} else {
+				const symbol = [3, 2, 1]
+					.map(length => this.source.substring(start, start + length))
+					.find(s => punctuation.has(s));
+
+				if (!symbol) {
+					this.current++;
+					this.error(`Unexpected character '${c}'.`, start);
+					return null;
+				}
+
+				this.current += symbol.length;
+				this.addToken(punctuation.get(symbol) as TT, start);
+			}
+		}
+
+		this.current = this.source.length;
+		this.addToken(TT.EOF, this.current);
+		return this.tokens;
+	}
+
+	// skips whitespace and comments, and returns the new position.
+	private skipWhitespace(): number {
+		while (this.current < this.source.length) {
+			const c = this.source[this.current];
+
+			if (c == "\n") {
+				this.line++;
+				this.lineStart = ++this.current;
+			} else if (/\s/.test(c)) {
+				this.current++;
+			} else if (this.source.startsWith("//", this.current)) {
+				const end = this.source.indexOf("\n", this.current);
+				this.current = end == -1 ? this.source.length : end;
+			} else if (this.source.startsWith("/*", this.current)) {
+				let end = this.source.indexOf("*/", this.current + 2);
+				end = end == -1 ? this.source.length : end + 2;
+				this.skipLines(this.current, end);
+				this.current = end;
+			} else {
+				break;
+			}
+		}
+		return this.current;
+	}
+
+	private scanWhile(pos: number, pattern: RegExp): number {
+		while (pos < this.source.length && pattern.test(this.source[pos])) pos++;
+		return pos;
+	}
+
+	private scanString(quote: string): boolean {
+		const start = this.current;
+		let end = start + 1;
+
+		while (end < this.source.length && this.source[end] != quote) {
+			if (this.source[end] == "\\") end++;
+			end++;
+		}
+
+		if (end >= this.source.length) {
+			this.current = end;
+			this.error("Unterminated string literal.", start);
+			return false;
+		}
+
+		this.skipLines(start, end);
+		this.current = end + 1;
+		this.addToken(TT.LITERAL_STR, start, this.source.substring(start + 1, end));
+		return true;
+	}
+
+	// updates the line number for the line breaks in a part of the source.
+	private skipLines(start: number, end: number) {
+		for (let i = start; i < end; i++) {
+			if (this.source[i] != "\n") continue;
+			this.line++;
+			this.lineStart = i + 1;
+		}
+	}
+
+	private addToken(type: TT, start: number, value: string | number | null = null) {
+		const raw = this.source.substring(start, this.current);
+		const column = start - this.lineStart + 1;
+		this.tokens.push({
+			raw: type == TT.EOF ? "<EOF>" : raw,
+			type,
+			value,
+			pos: { line: this.line, column, start, end: this.current },
+		});
+	}
+
+	private error(message: string, start: number) {
+		const token: Token = {
+			raw: this.source.substring(start, this.current),
+			type: TT.NAME,
+			value: null,
+			pos: { line: this.line, column: start - this.lineStart + 1, start, end: this.current },
+		};
+		this.reportError(errorFromToken(token, message, this.fileName), this.source);
+	}
+}
+
+class DtsParser {
+	private readonly tokens: Token[];
+	private readonly parseData: ParsedData;
+	private readonly reportError: ErrorReportFn;
+	private readonly prelude: Prelude;
+	private readonly ast = new AST.Program();
+	private current = 0;
+	private panicMode = false;
+
+	// maps the types declared in the file to the number of type
+	// parameters they have, and the number that have no default.
+	private readonly typeArity: Map<string, [number, number]> = new Map();
+	private readonly valueNames: Set<string> = new Set();
+	private readonly interfaces: Map<string, InterfaceInfo> = new Map();
+
+	// type parameters of the declaration being read.
+	private typeParams: Set<string> = new Set();
+	private substitution: Substitution = new Map();
+	// type parameters of the generic function types being read.
+	private functionTypeParams: Map<string, Typing.PlaceHolderType> = new Map();
+
+	constructor(
+		fileName: string,
+		source: string,
+		tokens: Token[],
+		reportErr: ErrorReportFn,
+		prelude: Prelude
+	) {
+		this.tokens = tokens;
+		this.reportError = reportErr;
+		this.prelude = prelude;
+		this.parseData = {
+			ast: this.ast,
+			sourceCode: source,
+			fileName,
+			hasError: false,
+			errors: [] as AveError[],
+		};
+	}
+
+	parse(): ParsedData {
+		this.findTypeNames();
+
+		while (!this.eof()) {
+			this.statement();
+			if (this.panicMode) {
+				this.skipStatement();
+				this.panicMode = false;
+			}
+		}
+
+		if (!this.parseData.hasError) this.includeBases();
+		return this.parseData;
+	}
+
+	// type names can be used before they are declared, so they are
+	// collected first. Names that are not declared in the file or
+	// the prelude are read as `any`.
+	private findTypeNames() {
+		let depth = 0;
+		for (let i = 0; i < this.tokens.length - 2; i++) {
+			const [token, name, next] = this.tokens.slice(i, i + 3);
+
+			if (token.type == TT.L_BRACE) depth++;
+			else if (token.type == TT.R_BRACE) depth--;
+			if (depth > 0 || name.type != TT.NAME) continue;
+
+			const isTypeAlias = token.raw == "type" && (next.type == TT.EQ || next.type == TT.LESS);
+			if (token.raw != "interface" && !isTypeAlias) continue;
+
+			const arity: [number, number] =
+				next.type == TT.LESS ? this.countTypeParams(i + 2) : [0, 0];
+			const declared = this.typeArity.get(name.raw);
+			if (!declared || arity[0] > declared[0]) this.typeArity.set(name.raw, arity);
+		}
+	}
+
+	// counts the type parameters in the list starting at the '<' at `index`,
+	// and the ones before the first parameter with a default type.
+	private countTypeParams(index: number): [number, number] {
+		let count = 1;
+		let required = -1;
+		for (let i = index + 1, depth = 0; i < this.tokens.length; i++) {
+			const token = this.tokens[i];
+			if (depth == 0 && token.type == TT.GREATER) break;
+
+			if (this.opens(token) || token.type == TT.LESS) depth++;
+			else if (this.closes(token) || token.type == TT.GREATER) depth--;
+			else if (depth == 0 && token.type == TT.COMMA) count++;
+			else if (depth == 0 && token.type == TT.EQ && required == -1) required = count - 1;
+		}
+		return [count, required == -1 ? count : required];
+	}
+
+	private statement() {
+		this.matchName("export");
+		// default exports, export lists and re-exports are not supported.
+		if (
+			this.checkName("default") ||
+			this.check(TT.EQ) ||
+			this.check(TT.L_BRACE) ||
+			this.check(TT.STAR)
+		) {
+			return this.skipStatement();
+		}
+
+		this.matchName("declare");
+		const keyword = this.peek();
+
+		if (keyword.type == TT.NAME) {
+			switch (keyword.raw) {
+				case "interface":
+					this.next();
+					return this.interfaceDecl();
+				case "type":
+					if (this.peekNext().type != TT.NAME) break;
+					this.next();
+					return this.typeAlias();
+				case "function":
+					this.next();
+					return this.funcDecl();
+				case "const":
+				case "let":
+				case "var":
+					this.next();
+					return this.varDecl(keyword);
+			}
+		}
+
+		this.skipStatement();
+	}
+
+	private interfaceDecl() {
+		const name = this.expect(TT.NAME, "Expected interface name.");
+		const typeParams = this.typeParamList();
+		const bases: HeritageClause[] = [];
+
+		if (this.matchName("extends")) {
+			do {
+				bases.push(this.heritageClause());
+			} while (this.match(TT.COMMA));
+		}
+
+		this.expect(TT.L_BRACE, "Expected '{' after interface name.");
+
+		let info = this.interfaces.get(name.raw);
+		if (!info) {
+			const params = typeParams.map(t => t.type);
+			const decl = new AST.StructDecl(name, params.length > 0, params);
+			info = { decl, typeParams, bodies: [], bases: [], memberNames: new Set() };
+
+			this.interfaces.set(name.raw, info);
+			this.addTypeNode(decl);
+		}
+
+		const target = info;
+		target.bodies.push(this.current);
+		target.bases.push(...bases);
+
+		this.withTypeParams(paramNames(target.typeParams), () => {
+			this.members((member, type, isOptional) => {
+				this.addMember(target, member, type, isOptional);
+			});
+		});
+	}
+
+	private heritageClause(): HeritageClause {
+		const name = this.expect(TT.NAME, "Expected interface name after 'extends'.").raw;
+		const args: number[] = [];
+
+		if (this.match(TT.LESS)) {
+			do {
+				args.push(this.current);
+				this.parseType();
+			} while (this.match(TT.COMMA));
+			this.expect(TT.GREATER, "Expected '>' after type arguments.");
+		}
+
+		return { name, args };
+	}
+
+	private addMember(info: InterfaceInfo, name: Token, type: Typing.Type, isOptional: boolean) {
+		if (info.memberNames.has(name.raw)) return;
+		info.memberNames.add(name.raw);
+		info.decl.properties.set(name, new AST.TypeInfo(name, type));
+		if (isOptional) info.decl.optionalProperties.add(name.raw);
+	}
+
+	// copies the members of the interfaces that an interface extends
+	// into it, with the base's type parameters replaced by the arguments.
+	private includeBases() {
+		this.interfaces.forEach(info => {
+			const seen = new Set([info.decl.name]);
+			this.withTypeParams(paramNames(info.typeParams), () => {
+				this.includeBasesOf(info, info.bases, new Map(), seen);
+			});
+		});
+	}
+
+	private includeBasesOf(
+		target: InterfaceInfo,
+		bases: HeritageClause[],
+		substitution: Substitution,
+		seen: Set<string>
+	) {
+		for (const base of bases) {
+			const info = this.interfaces.get(base.name);
+			if (!info || seen.has(base.name)) continue;
+			seen.add(base.name);
+
+			const baseSubstitution: Substitution = new Map();
+			info.typeParams.forEach((param, i) => {
+				const start = base.args[i];
+				const name = param.type.tag;
+				if (start != undefined) {
+					baseSubstitution.set(name, { start, substitution });
+				} else if (param.defaultStart != null) {
+					// a default type may mention the parameters before it.
+					const defaultSubstitution = new Map(baseSubstitution);
+					baseSubstitution.set(name, { start: param.defaultStart, substitution: defaultSubstitution });
+				} else {
+					baseSubstitution.set(name, null);
+				}
+			});
+
+			for (const start of info.bodies) {
+				this.current = start;
+				this.substitution = baseSubstitution;
+				this.members((member, type, isOptional) => {
+					this.addMember(target, member, type, isOptional);
+				});
+			}
+
+			this.includeBasesOf(target, info.bases, baseSubstitution, seen);
+		}
+
+		this.substitution = new Map();
+	}
+
+	private typeAlias() {
+		const name = this.expect(TT.NAME, "Expected type alias name.");
+		const typeParams = this.typeParamList();
+		this.expect(TT.EQ, "Expected '=' after type alias name.");
+
+		const type = this.withTypeParams(paramNames(typeParams), () => this.parseType());
+		this.match(TT.SEMI_COLON);
+
+		if (this.ast.body.findTypeNode(name.raw)) return;
+
+		const params = typeParams.map(t => t.type);
+		const typeInfo = new AST.TypeInfo(name, type);
+		this.addTypeNode(new AST.TypeDef(name, typeInfo, params.length > 0, params));
+	}
+
+	private addTypeNode(decl: AST.StructDecl | AST.TypeDef) {
+		this.ast.body.statements.push(decl);
+		this.ast.body.bindTypeNode(decl.name, decl);
+	}
+
+	private funcDecl() {
+		const name = this.expect(TT.NAME, "Expected function name.");
+		const type = this.functionSignature(TT.COLON);
+		this.match(TT.SEMI_COLON);
+
+		// overloads are not supported, the first signature is used.
+		this.addValue(name, type, DeclarationKind.BlockScope);
+	}
+
+	private varDecl(keyword: Token) {
+		const kind = keyword.raw == "const" ? DeclarationKind.Constant : DeclarationKind.BlockScope;
+
+		do {
+			const name = this.expect(TT.NAME, "Expected variable name.");
+			let type = this.match(TT.COLON) ? this.parseType() : Typing.t_any;
+
+			// constants can be initialized with a literal in place of a type.
+			if (this.match(TT.EQ)) {
+				this.match(TT.MINUS);
+				const literal = this.next();
+				if (literal.type == TT.LITERAL_STR) type = Typing.t_string;
+				else if (literal.type == TT.LITERAL_NUM) type = Typing.t_number;
+				else if (literal.raw == "true" || literal.raw == "false") type = Typing.t_bool;
+			}
+
+			this.addValue(name, type, kind);
+		} while (this.match(TT.COMMA));
+
+		this.match(TT.SEMI_COLON);
+	}
+
+	private addValue(name: Token, type: Typing.Type, kind: DeclarationKind) {
+		if (this.valueNames.has(name.raw)) return;
+		this.valueNames.add(name.raw);
+		this.ast.body.statements.push(new AST.AmbientDecl(name, new AST.TypeInfo(name, type), kind));
+	}
+
+	// '<' NAME ('extends' type)? ('=' type)? (',' ...)* '>'
+	private typeParamList(): TypeParamInfo[] {
+		const params: TypeParamInfo[] = [];
+		if (!this.match(TT.LESS)) return params;
+
+		do {
+			const name = this.expect(TT.NAME, "Expected type parameter name.").raw;
+			const param: TypeParamInfo = { type: new Typing.PlaceHolderType(name), defaultStart: null };
+
+			// constraints are not checked.
+			if (this.matchName("extends")) this.parseType();
+			// a default type may mention the parameters before it.
+			if (this.match(TT.EQ)) {
+				param.defaultStart = this.current;
+				const names = paramNames(params).concat(Array.from(this.typeParams));
+				param.type.defaultType = this.withTypeParams(names, () => this.parseType());
+			}
+			params.push(param);
+		} while (this.match(TT.COMMA));
+
+		this.expect(TT.GREATER, "Expected '>' after type parameters.");
+		return params;
+	}
+
+	private withTypeParams<T>(names: string[], fn: () => T): T {
+		const saved = this.typeParams;
+		this.typeParams = new Set(names);
+		const result = fn();
+		this.typeParams = saved;
+		return result;
+	}
+
+	// reads the members of an interface or object type up to
+	// the closing '}', and calls `define` for every property.
+	private members(define: MemberFn) {
+		while (!this.check(TT.R_BRACE) && !this.eof()) {
+			const start = this.current;
+			this.member(define);
+			if (!this.match(TT.SEMI_COLON)) this.match(TT.COMMA);
+			if (this.current == start) this.next();
+		}
+
+		this.expect(TT.R_BRACE, "Expected '}' after members.");
+	}
+
+	private member(define: MemberFn) {
+		const next = this.peekNext();
+
+		// index signatures, mapped types, call and construct
+		// signatures have no equivalent in Ave.
+		if (
+			this.check(TT.L_SQ_BRACE) ||
+			this.check(TT.L_PAREN) ||
+			this.check(TT.LESS) ||
+			(this.checkName("new") && (next.type == TT.L_PAREN || next.type == TT.LESS))
+		) {
+			return this.skipMember();
+		}
+
+		if (this.checkName("readonly") && this.isPropertyName(next)) this.next();
+
+		let isSetter = false;
+		if ((this.checkName("get") || this.checkName("set")) && this.isPropertyName(this.peekNext())) {
+			isSetter = this.next().raw == "set";
+		}
+
+		const name = this.propertyName();
+		const isOptional = this.match(TT.QUESTION);
+
+		let type = Typing.t_any;
+		if (this.check(TT.L_PAREN) || this.check(TT.LESS)) type = this.functionSignature(TT.COLON);
+		else if (this.match(TT.COLON)) type = this.parseType();
+
+		// the type of an accessor property comes from the getter.
+		if (isSetter) return;
+		// optional members can be left out, and are `undefined` when they are.
+		define(name, isOptional ? new UnionType(type, Typing.t_undef) : type, isOptional);
+	}
+
+	private isPropertyName(token: Token) {
+		return token.type == TT.NAME || token.type == TT.LITERAL_STR || token.type == TT.LITERAL_NUM;
+	}
+
+	private propertyName(): Token {
+		const token = this.next();
+		if (!this.isPropertyName(token)) {
+			this.error("Expected property name.", token);
+			return token;
+		}
+
+		// quoted names are used without the quotes.
+		if (token.type == TT.NAME) return token;
+		return { ...token, raw: String(token.value), type: TT.NAME };
+	}
+
+	private skipMember() {
+		let depth = 0;
+		while (!this.eof()) {
+			const token = this.peek();
+			if (
+				depth == 0 &&
+				(token.type == TT.R_BRACE || token.type == TT.SEMI_COLON || token.type == TT.COMMA)
+			) {
+				return;
+			}
+
+			if (this.opens(token)) depth++;
+			else if (this.closes(token)) depth--;
+			this.next();
+		}
+	}
+
+	// skips a statement that cannot be read, like a class or namespace.
+	private skipStatement() {
+		let depth = 0;
+		while (!this.eof()) {
+			const token = this.next();
+
+			if (this.opens(token)) {
+				depth++;
+			} else if (this.closes(token)) {
+				depth--;
+				if (depth <= 0 && token.type == TT.R_BRACE) break;
+			} else if (depth == 0 && token.type == TT.SEMI_COLON) {
+				return;
+			}
+
+			// statements are not always terminated with a ';'
+			if (depth == 0 && this.startsDeclaration()) return;
+		}
+
+		this.match(TT.SEMI_COLON);
+	}
+
+	private startsDeclaration(): boolean {
+		const token = this.peek();
+		return (
+			token.type == TT.NAME &&
+			declarationKeywords.has(token.raw) &&
+			token.pos.line > this.prev().pos.line
+		);
+	}
+
+	// ('<' type params '>')? '(' params ')' (':' | '=>') type
+	private functionSignature(returnSeparator: TT.COLON | TT.ARROW): FunctionType {
+		const saved = this.substitution;
+		const savedFunctionParams = this.functionTypeParams;
+
+		// the type parameters of a generic function hide
+		// the type parameters of the enclosing declaration.
+		const typeParams = this.typeParamList().map(param => param.type);
+		if (typeParams.length) {
+			this.substitution = new Map(saved);
+			this.functionTypeParams = new Map(savedFunctionParams);
+			for (const param of typeParams) {
+				this.substitution.delete(param.tag);
+				this.functionTypeParams.set(param.tag, param);
+			}
+		}
+
+		this.expect(TT.L_PAREN, "Expected '(' before parameters.");
+		const params = this.params();
+
+		let returnType = Typing.t_any;
+		if (returnSeparator == TT.ARROW) {
+			this.expect(TT.ARROW, "Expected '=>' after parameters.");
+			returnType = this.returnType();
+		} else if (this.match(TT.COLON)) {
+			returnType = this.returnType();
+		}
+
+		this.substitution = saved;
+		this.functionTypeParams = savedFunctionParams;
+		if (typeParams.length) return new GenericFunctionType(params, returnType, typeParams);
+		return new FunctionType("", params, returnType);
+	}
+
+	private params(): ParameterTypeInfo[] {
+		const params: ParameterTypeInfo[] = [];
+
+		while (!this.match(TT.R_PAREN) && !this.eof()) {
+			const isRest = this.match(TT.SPREAD);
+
+			// destructured parameters don't have a name.
+			let name = "arg";
+			if (this.check(TT.L_BRACE) || this.check(TT.L_SQ_BRACE)) this.skipBalanced();
+			else name = this.expect(TT.NAME, "Expected parameter name.").raw;
+
+			const isOptional = this.match(TT.QUESTION);
+			const type = this.match(TT.COLON)
+				? this.parseType()
+				: isRest
+				? t_Array.instantiate([Typing.t_any])
+				: Typing.t_any;
+
+			// `this` parameters only describe the receiver of a method.
+			if (name != "this") params.push({ name, type, required: !isOptional && !isRest, isRest });
+
+			if (!this.match(TT.COMMA)) {
+				this.expect(TT.R_PAREN, "Expected ')' after parameters.");
+				break;
+			}
+		}
+
+		return params;
+	}
+
+	private returnType(): Typing.Type {
+		// type predicates like `value is string` are booleans.
+		if (this.checkName("asserts")) {
+			this.next();
+			this.next();
+			if (this.matchName("is")) this.parseType();
+			return Typing.t_void;
+		}
+
+		if (this.check(TT.NAME) && this.peekNext().raw == "is") {
+			this.next();
+			this.next();
+			this.parseType();
+			return Typing.t_bool;
+		}
+
+		return this.parseType();
+	}
+
+	private parseType(): Typing.Type {
+		this.match(TT.PIPE);
+
+		const types = [this.intersectionType()];
+		while (this.match(TT.PIPE)) types.push(this.intersectionType());
+
+		// conditional types are not supported.
+		if (this.matchName("extends")) {
+			this.parseType();
+			this.expect(TT.QUESTION, "Expected '?' in conditional type.");
+			this.parseType();
+			this.expect(TT.COLON, "Expected ':' in conditional type.");
+			this.parseType();
+			return Typing.t_any;
+		}
+
+		return types.length == 1 ? types[0] : new UnionType(...types);
+	}
+
+	// intersections have no equivalent in Ave.
+	private intersectionType(): Typing.Type {
+		this.match(TT.AMP);
+		const type = this.postfixType();
+
+		if (!this.check(TT.AMP)) return type;
+		while (this.match(TT.AMP)) this.postfixType();
+		return Typing.t_any;
+	}
+
+	private postfixType(): Typing.Type {
+		let type = this.primaryType();
+
+		// a '[' on the next line begins a new member.
+		while (this.check(TT.L_SQ_BRACE) && this.peek().pos.line == this.prev().pos.line) {
+			if (this.peekNext().type == TT.R_SQ_BRACE) {
+				this.next();
+				this.next();
+				type = t_Array.instantiate([type]);
+			} else {
+				// indexed access types like `T["key"]`.
+				this.skipBalanced();
+				type = Typing.t_any;
+			}
+		}
+
+		return type;
+	}
+
+	private primaryType(): Typing.Type {
+		const token = this.peek();
+
+		switch (token.type) {
+			case TT.L_PAREN:
+				if (this.isFunctionType()) return this.functionSignature(TT.ARROW);
+				this.next();
+				const type = this.parseType();
+				this.expect(TT.R_PAREN, "Expected ')'.");
+				return type;
+			case TT.LESS:
+				return this.functionSignature(TT.ARROW);
+			case TT.L_BRACE:
+				this.next();
+				return this.objectType();
+			case TT.L_SQ_BRACE:
+				this.next();
+				return this.tupleType();
+			case TT.LITERAL_STR:
+				this.next();
+				return Typing.t_string;
+			case TT.MINUS:
+				this.next();
+				this.expect(TT.LITERAL_NUM, "Expected a number.");
+				return Typing.t_number;
+			case TT.LITERAL_NUM:
+				this.next();
+				return Typing.t_number;
+			case TT.NAME:
+				return this.namedType();
+		}
+
+		this.error("Expected a type.", token);
+		return Typing.t_any;
+	}
+
+	// checks if the '(' at the current token begins a function type,
+	// instead of a parenthesized type.
+	private isFunctionType(): boolean {
+		let depth = 0;
+		for (let i = this.current; i < this.tokens.length; i++) {
+			const token = this.tokens[i];
+			if (this.opens(token)) depth++;
+			else if (this.closes(token) && --depth == 0) {
+				return this.tokens[i + 1] && this.tokens[i + 1].type == TT.ARROW;
+			}
+		}
+		return false;
+	}
+
+	private namedType(): Typing.Type {
+		const name = this.next();
+
+		switch (name.raw) {
+			case "true":
+			case "false":
+				return Typing.t_bool;
+			case "abstract":
+			case "new":
+				// constructor types are not supported.
+				this.matchName("new");
+				this.functionSignature(TT.ARROW);
+				return Typing.t_any;
+			case "readonly":
+				return this.postfixType();
+			case "keyof":
+			case "unique":
+			case "infer":
+				this.postfixType();
+				return Typing.t_any;
+			case "typeof":
+				this.qualifiedName();
+				return Typing.t_any;
+		}
+
+		const primitive = primitiveTypes.get(name.raw);
+		if (primitive) return primitive;
+
+		// names inside namespaces are not supported.
+		const isQualified = this.check(TT.DOT);
+		this.qualifiedName();
+
+		const args = this.check(TT.LESS) ? this.typeArgs() : [];
+		if (isQualified) return Typing.t_any;
+
+		return this.typeReference(name, args);
+	}
+
+	private qualifiedName() {
+		while (this.match(TT.DOT)) this.expect(TT.NAME, "Expected name after '.'.");
+	}
+
+	private typeArgs(): Typing.Type[] {
+		const args: Typing.Type[] = [];
+		this.expect(TT.LESS, "Expected '<'.");
+
+		do {
+			args.push(this.parseType());
+		} while (this.match(TT.COMMA));
+
+		this.expect(TT.GREATER, "Expected '>' after type arguments.");
+		return args;
+	}
+
+	private typeReference(name: Token, args: Typing.Type[]): Typing.Type {
+		const functionParam = this.functionTypeParams.get(name.raw);
+		if (functionParam) return functionParam;
+
+		if (this.substitution.has(name.raw)) {
+			const arg = this.substitution.get(name.raw);
+			return arg ? this.typeArgument(arg) : Typing.t_any;
+		}
+
+		if (name.raw == "Array" || name.raw == "ReadonlyArray") {
+			return t_Array.instantiate([args[0] || Typing.t_any]);
+		}
+
+		if (this.typeParams.has(name.raw)) return Typing.fromToken(name);
+
+		const arity = this.arityOf(name.raw);
+		if (arity == null) return Typing.t_any;
+		const [paramCount, requiredCount] = arity;
+
+		// missing type arguments are assumed to be `any`,
+		// unless their parameters have a default type.
+		while (args.length < requiredCount) args.push(Typing.t_any);
+		if (!args.length) return Typing.fromToken(name);
+
+		return new GenericInstance(name.raw, args.slice(0, paramCount));
+	}
+
+	// returns the number of type parameters of a type declared in the file or the
+	// prelude, and the number that have no default, or null if there is no such type.
+	private arityOf(name: string): [number, number] | null {
+		const arity = this.typeArity.get(name);
+		if (arity != undefined) return arity;
+
+		const type = this.prelude.types.get(name);
+		if (!type) return null;
+		if (!(type instanceof GenericType)) return [0, 0];
+		return [type.typeParams.length, type.requiredParamCount];
+	}
+
+	// reads the type argument again, where its parameter appears.
+	private typeArgument(arg: TypeArgument): Typing.Type {
+		const current = this.current;
+		const substitution = this.substitution;
+
+		this.current = arg.start;
+		this.substitution = arg.substitution;
+		const type = this.parseType();
+
+		this.current = current;
+		this.substitution = substitution;
+		return type;
+	}
+
+	private objectType(): ObjectType {
+		const type = new ObjectType();
+		this.members((name, memberType, isOptional) => {
+			if (type.hasOwnProperty(name.raw)) return;
+			type.defineProperty(name.raw, memberType);
+			if (isOptional) type.optionalProperties.add(name.raw);
+		});
+		return type;
+	}
+
+	private tupleType(): Typing.Type {
+		const elementTypes: Typing.Type[] = [];
+		let hasRest = false;
+
+		while (!this.match(TT.R_SQ_BRACE) && !this.eof()) {
+			if (this.match(TT.SPREAD)) hasRest = true;
+
+			// element labels, like in `[x: number, y: number]`
+			const next = this.peekNext();
+			if (this.check(TT.NAME) && (next.type == TT.COLON || next.type == TT.QUESTION)) {
+				this.next();
+				this.match(TT.QUESTION);
+				this.expect(TT.COLON, "Expected ':' after tuple element name.");
+			}
+
+			elementTypes.push(this.parseType());
+			this.match(TT.QUESTION);
+
+			if (!this.match(TT.COMMA)) {
+				this.expect(TT.R_SQ_BRACE, "Expected ']' after tuple element types.");
+				break;
+			}
+		}
+
+		// tuples with rest elements have no fixed length.
+		if (hasRest) return t_Array.instantiate([Typing.t_any]);
+		return new TupleType(elementTypes);
+	}
+
+	private skipBalanced() {
+		let depth = 0;
+		do {
+			const token = this.next();
+			if (this.opens(token)) depth++;
+			else if (this.closes(token)) depth--;
+		} while (depth > 0 && !this.eof());
+	}
+
+	private opens(token: Token) {
+		return token.type == TT.L_BRACE || token.type == TT.L_PAREN || token.type == TT.L_SQ_BRACE;
+	}
+
+	private closes(token: Token) {
+		return token.type == TT.R_BRACE || token.type == TT.R_PAREN || token.type == TT.R_SQ_BRACE;
+	}
+
+	//--
+
+	private peek(): Token {
+		return this.tokens[this.current];
+	}
+
+	private peekNext(): Token {
+		return this.tokens[Math.min(this.current + 1, this.tokens.length - 1)];
+	}
+
+	private prev(): Token {
+		return this.tokens[Math.max(this.current - 1, 0)];
+	}
+
+	private next(): Token {
+		const token = this.peek();
+		if (!this.eof()) this.current++;
+		return token;
+	}
+
+	private eof(): boolean {
+		return this.peek().type == TT.EOF;
+	}
+
+	private check(type: TT): boolean {
+		return this.peek().type == type;
+	}
+
+	private checkName(name: string): boolean {
+		return this.check(TT.NAME) && this.peek().raw == name;
+	}
+
+	private match(type: TT): boolean {
+		if (!this.check(type)) return false;
+		this.next();
+		return true;
+	}
+
+	private matchName(name: string): boolean {
+		if (!this.checkName(name)) return false;
+		this.next();
+		return true;
+	}
+
+	private expect(type: TT, message: string): Token {
+		if (!this.match(type)) this.error(message, this.peek());
+		return this.prev();
+	}
+
+	private error(message: string, token: Token) {
+		if (this.panicMode) return;
+		this.panicMode = true;
+		this.parseData.hasError = true;
+		this.ast.hasError = true;
+
+		const err = errorFromToken(token, message, this.parseData.fileName);
+		this.parseData.errors.push(err);
+		this.reportError(err, this.parseData.sourceCode);
+	}
+}
+
+function paramNames(params: TypeParamInfo[]): string[] {
+	return params.map(param => param.type.tag);
+}
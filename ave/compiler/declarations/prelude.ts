@@ -0,0 +1,190 @@
+// Declarations for the Javascript built-ins, available in every Ave file.
+// The members of `Array`, `String`, `Number` and `Boolean` are added to
+// the array and primitive types, the rest are declared as global names.
+// A member declared twice, like `reduce`, is overloaded.
+
+// the core declarations are always loaded.
+export const core = `
+struct IteratorResult<T>
+  done: bool
+  value: T
+
+struct Iterator<T>
+  next: () -> IteratorResult<T>
+
+struct Array<T>
+  length: num
+  push: (...items: T[]) -> num
+  pop: () -> T | undefined
+  shift: () -> T | undefined
+  unshift: (...items: T[]) -> num
+  concat: (items: T[]) -> T[]
+  join: (separator?: str) -> str
+  reverse: () -> T[]
+  slice: (start?: num, end?: num) -> T[]
+  splice: (start: num, deleteCount?: num, ...items: T[]) -> T[]
+  indexOf: (item: T, fromIndex?: num) -> num
+  lastIndexOf: (item: T, fromIndex?: num) -> num
+  includes: (item: T, fromIndex?: num) -> bool
+  find: (predicate: (value: T, index: num) -> bool) -> T | undefined
+  findIndex: (predicate: (value: T, index: num) -> bool) -> num
+  filter: (predicate: (value: T, index: num) -> bool) -> T[]
+  every: (predicate: (value: T, index: num) -> bool) -> bool
+  some: (predicate: (value: T, index: num) -> bool) -> bool
+  forEach: (callback: (value: T, index: num) -> void) -> void
+  map: <U>(callback: (value: T, index: num) -> U) -> U[]
+  flatMap: <U>(callback: (value: T, index: num) -> U[]) -> U[]
+  flat: (depth?: num) -> any[]
+  reduce: (callback: (acc: T, value: T, index: num) -> T) -> T
+  reduce: <U>(callback: (acc: U, value: T, index: num) -> U, initial: U) -> U
+  reduceRight: (callback: (acc: T, value: T, index: num) -> T) -> T
+  reduceRight: <U>(callback: (acc: U, value: T, index: num) -> U, initial: U) -> U
+  sort: (compare?: (a: T, b: T) -> num) -> T[]
+  fill: (value: T, start?: num, end?: num) -> T[]
+  keys: () -> Iterator<num>
+  entries: () -> Iterator<[num, T]>
+  toString: () -> str
+
+struct String
+  length: num
+  charAt: (index: num) -> str
+  charCodeAt: (index: num) -> num
+  concat: (...strings: str[]) -> str
+  includes: (search: str, position?: num) -> bool
+  startsWith: (search: str, position?: num) -> bool
+  endsWith: (search: str, length?: num) -> bool
+  indexOf: (search: str, position?: num) -> num
+  lastIndexOf: (search: str, position?: num) -> num
+  slice: (start?: num, end?: num) -> str
+  substring: (start: num, end?: num) -> str
+  split: (separator: str, limit?: num) -> str[]
+  toLowerCase: () -> str
+  toUpperCase: () -> str
+  trim: () -> str
+  trimStart: () -> str
+  trimEnd: () -> str
+  padStart: (length: num, fill?: str) -> str
+  padEnd: (length: num, fill?: str) -> str
+  repeat: (count: num) -> str
+  replace: (search: str, replacement: str) -> str
+  toString: () -> str
+
+struct Number
+  toFixed: (digits?: num) -> str
+  toPrecision: (precision?: num) -> str
+  toString: (radix?: num) -> str
+
+struct Boolean
+  toString: () -> str
+`;
+
+// the other declarations are split into libraries, so that projects
+// can select the built-ins of the environment they run in with
+// the `lib` compiler option.
+const consoleLib = `
+struct Console
+  log: (...values: any[]) -> void
+  info: (...values: any[]) -> void
+  warn: (...values: any[]) -> void
+  error: (...values: any[]) -> void
+  debug: (...values: any[]) -> void
+
+declare const console: Console
+`;
+
+const es5Lib = `
+struct Math
+  PI: num
+  E: num
+  abs: (x: num) -> num
+  ceil: (x: num) -> num
+  floor: (x: num) -> num
+  round: (x: num) -> num
+  trunc: (x: num) -> num
+  sign: (x: num) -> num
+  sqrt: (x: num) -> num
+  cbrt: (x: num) -> num
+  exp: (x: num) -> num
+  log: (x: num) -> num
+  log2: (x: num) -> num
+  log10: (x: num) -> num
+  sin: (x: num) -> num
+  cos: (x: num) -> num
+  tan: (x: num) -> num
+  asin: (x: num) -> num
+  acos: (x: num) -> num
+  atan: (x: num) -> num
+  atan2: (y: num, x: num) -> num
+  pow: (x: num, y: num) -> num
+  hypot: (...values: num[]) -> num
+  max: (...values: num[]) -> num
+  min: (...values: num[]) -> num
+  random: () -> num
+
+struct JSON
+  parse: (text: str) -> any
+  stringify: (value: any, replacer?: any, space?: num | str) -> str
+
+struct ObjectConstructor
+  keys: (value: any) -> str[]
+  values: (value: any) -> any[]
+  entries: (value: any) -> any[]
+  assign: (target: any, ...sources: any[]) -> any
+  freeze: (value: any) -> any
+
+declare const Math: Math
+declare const JSON: JSON
+declare const Object: ObjectConstructor
+
+declare const parseInt: (text: str, radix?: num) -> num
+declare func parseFloat(text: str): num
+declare func isNaN(value: num): bool
+declare func isFinite(value: num): bool
+`;
+
+const collectionLib = `
+struct Map<K, V>
+  size: num
+  get: (key: K) -> V | undefined
+  set: (key: K, value: V) -> Map<K, V>
+  has: (key: K) -> bool
+  delete: (key: K) -> bool
+  clear: () -> void
+  forEach: (callback: (value: V, key: K) -> void) -> void
+
+struct Set<T>
+  size: num
+  add: (value: T) -> Set<T>
+  has: (value: T) -> bool
+  delete: (value: T) -> bool
+  clear: () -> void
+  forEach: (callback: (value: T) -> void) -> void
+
+declare const Map: new <K, V>(entries?: [K, V][]) -> Map<K, V>
+declare const Set: new <T>(values?: T[]) -> Set<T>
+`;
+
+const promiseLib = `
+struct Promise<T>
+  then: (onFulfilled: (value: T) -> any, onRejected?: (reason: any) -> any) -> Promise<any>
+  catch: (onRejected: (reason: any) -> any) -> Promise<any>
+  finally: (onFinally: () -> void) -> Promise<T>
+
+struct PromiseConstructor
+  new <T>(executor: (resolve: (value: T) -> void, reject: (reason: any) -> void) -> void) -> Promise<T>
+  resolve: <T>(value: T) -> Promise<T>
+  reject: (reason: any) -> Promise<any>
+  all: <T>(promises: Promise<T>[]) -> Promise<T[]>
+  race: <T>(promises: Promise<T>[]) -> Promise<T>
+
+declare const Promise: PromiseConstructor
+`;
+
+const libraries: Map<string, string> = new Map([
+	["console", consoleLib],
+	["es5", es5Lib],
+	["es2015.collection", collectionLib],
+	["es2015.promise", promiseLib],
+]);
+
+export default libraries;
@@ -0,0 +1,270 @@
+import fs = require("fs");
+import path = require("path");
+import { AveError, ErrorReportFn, ErrorType } from "../error/error";
+import { throwError } from "../error/reporter";
+import { ModuleFormat } from "./codegen/gen";
+import libraries from "./declarations/prelude";
+
+export interface CompilerOptions {
+	// directory containing the source files.
+	in: string;
+	// directory the compiled files are written to.
+	out: string;
+	module: ModuleFormat;
+	// glob patterns of the files in `in` that are compiled, and
+	// of the files that are left out. Files that are left out are
+	// still compiled when another file imports them.
+	include: string[];
+	exclude: string[];
+	// write a '.d.ts' file next to every compiled file.
+	declaration: boolean;
+	// write a '.js.map' file next to every compiled file.
+	sourceMap: boolean;
+	// built-in declarations that are available, like "console" or "es5".
+	lib: string[];
+	// enables all the strictness flags that are not set.
+	strict: boolean;
+	// report parameters that have no type annotation.
+	noImplicitAny: boolean;
+}
+
+export const defaultOptions: CompilerOptions = {
+	in: ".",
+	out: ".",
+	module: "esm",
+	include: ["**/*.ave"],
+	exclude: [],
+	declaration: false,
+	sourceMap: false,
+	lib: Array.from(libraries.keys()),
+	strict: false,
+	noImplicitAny: false,
+};
+
+type OptionName = keyof CompilerOptions;
+
+// the names of the options that are either on or off.
+type Flag = { [K in OptionName]: CompilerOptions[K] extends boolean ? K : never }[OptionName];
+
+// the options enabled by `strict`.
+const strictFlags: Flag[] = ["noImplicitAny"];
+
+type OptionKind = "string" | "boolean" | "string[]";
+
+// the kind of value every option takes, options that
+// take one of a few strings list the allowed values.
+const optionKinds: { [K in OptionName]: OptionKind | string[] } = {
+	in: "string",
+	out: "string",
+	module: ["esm", "commonjs"],
+	include: "string[]",
+	exclude: "string[]",
+	declaration: "boolean",
+	sourceMap: "boolean",
+	lib: Array.from(libraries.keys()),
+	strict: "boolean",
+	noImplicitAny: "boolean",
+};
+
+/**
+ * Reads and validates a config file. The `in` and `out` directories are
+ * resolved relative to the config file. Returns null if the config has
+ * any errors, after reporting all of them.
+ * @param configPath {string} path to the config file.
+ * @param reportErr {ErrorReportFn} called for every error in the config.
+ */
+export function readConfigFile(
+	configPath: string,
+	reportErr: ErrorReportFn = throwError
+): CompilerOptions | null {
+	const source = fs.readFileSync(configPath, { encoding: "utf-8" });
+	const options = parseConfig(source, path.relative(process.cwd(), configPath), reportErr);
+	if (!options) return null;
+
+	const dir = path.dirname(configPath);
+	options.in = path.resolve(dir, options.in);
+	options.out = path.resolve(dir, options.out);
+	return options;
+}
+
+/**
+ * Parses the contents of a config file, and checks that it only
+ * has known options with values of the right type.
+ * Options that are not in the config have their default values.
+ * @param source {string} contents of the config file.
+ * @param fileName {string} name of the config file, used in error messages.
+ * @param reportErr {ErrorReportFn} called for every error in the config.
+ */
+export function parseConfig(
+	source: string,
+	fileName: string,
+	reportErr: ErrorReportFn = throwError
+): CompilerOptions | null {
+	let hasError = false;
+	const error = (message: string, start: number, length: number) => {
+		hasError = true;
+		reportErr(configError(source, fileName, message, start, length), source);
+	};
+
+	let json: unknown;
+	try {
+		json = JSON.parse(source);
+	} catch (e) {
+		const message = String(e instanceof Error ? e.message : e);
+		error(`Invalid JSON: ${jsonErrorMessage(message)}`, jsonErrorPosition(source, message), 1);
+		return null;
+	}
+
+	if (!isObject(json)) {
+		error("The config file must contain an object.", source.search(/\S/), 1);
+		return null;
+	}
+
+	const options: CompilerOptions = { ...defaultOptions };
+	for (const key of Object.keys(json)) {
+		const value = json[key];
+		const keyPos = findKey(source, key);
+
+		if (!isOptionName(key)) {
+			error(`Unknown compiler option '${key}'.`, keyPos, key.length + 2);
+			continue;
+		}
+		const kind = optionKinds[key];
+
+		// errors about the value are reported at the value, after the key's ':'.
+		const separator = /^"(?:[^"\\]|\\.)*"\s*:\s*/.exec(source.slice(keyPos));
+		const valueStart = keyPos + (separator ? separator[0].length : 0);
+		const valueLength = (JSON.stringify(value) || "").length;
+
+		if (key == "lib") {
+			if (!isStringArray(value)) {
+				error(`Option 'lib' must be an array of strings.`, valueStart, valueLength);
+				continue;
+			}
+
+			const libs = kind as string[];
+			for (const lib of value) {
+				if (libs.indexOf(lib) != -1) continue;
+				const libPos = source.indexOf(JSON.stringify(lib), valueStart);
+				error(
+					`Unknown library '${lib}', expected one of ${quoteAll(libs)}.`,
+					libPos,
+					lib.length + 2
+				);
+			}
+		} else if (Array.isArray(kind)) {
+			if (typeof value != "string" || kind.indexOf(value) == -1) {
+				error(`Option '${key}' must be one of ${quoteAll(kind)}.`, valueStart, valueLength);
+				continue;
+			}
+		} else if (!hasKind(value, kind)) {
+			const article = kind == "string[]" ? "an array of strings" : `a ${kind}`;
+			error(
+				`Option '${key}' must be ${article}, got '${valueKind(value)}'.`,
+				valueStart,
+				valueLength
+			);
+			continue;
+		}
+
+		setOption(options, key, value);
+	}
+
+	if (hasError) return null;
+
+	// `strict` only changes the flags that the config doesn't set itself.
+	if (options.strict) {
+		for (const flag of strictFlags) {
+			if (!(flag in json)) options[flag] = true;
+		}
+	}
+
+	return options;
+}
+
+function isOptionName(key: string): key is OptionName {
+	return Object.prototype.hasOwnProperty.call(optionKinds, key);
+}
+
+// the value has already been checked to be of the option's kind.
+function setOption<K extends OptionName>(options: CompilerOptions, key: K, value: unknown) {
+	options[key] = value as CompilerOptions[K];
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+	return typeof value == "object" && value !== null && !Array.isArray(value);
+}
+
+function hasKind(value: unknown, kind: OptionKind): boolean {
+	return kind == "string[]" ? isStringArray(value) : typeof value == kind;
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(item => typeof item == "string");
+}
+
+// name of the kind of a JSON value, as used in error messages.
+function valueKind(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
+
+// removes the position from a JSON.parse error message, which
+// is either written out, or shown by quoting the source around it.
+function jsonErrorMessage(message: string): string {
+	return message
+		.replace(/ (in|after) JSON at position \d+.*$/, "")
+		.replace(/, (\.\.\.)?"[^]*"(\.\.\.)? is not valid JSON$/, "");
+}
+
+// returns the position of a JSON.parse error in the source. Some versions of
+// Node only quote the source around the unexpected token, which is then at
+// most 10 characters from the start and end of the quote, if it was shortened.
+function jsonErrorPosition(source: string, message: string): number {
+	const position = /at position (\d+)/.exec(message);
+	if (position) return Number(position[1]);
+	if (/end of JSON input$/.test(message)) return source.replace(/\s+$/, "").length;
+
+	const quote = /^Unexpected token '([^]+?)', (\.\.\.)?"([^]*)"(\.\.\.)? is not valid JSON$/.exec(
+		message
+	);
+	if (!quote) return 0;
+
+	const [, token, cutStart, text, cutEnd] = quote;
+	const start = source.indexOf(text);
+	if (start == -1) return 0;
+	if (cutStart) return start + 10;
+	if (cutEnd) return start + text.length - 10;
+	return start + Math.max(text.indexOf(token), 0);
+}
+
+function quoteAll(names: string[]): string {
+	return names.map(name => `'${name}'`).join(", ");
+}
+
+// returns the position of a key in the config's source.
+function findKey(source: string, key: string): number {
+	const escaped = JSON.stringify(key).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const match = new RegExp(escaped + "\\s*:").exec(source);
+	return match ? match.index : 0;
+}
+
+function configError(
+	source: string,
+	fileName: string,
+	message: string,
+	start: number,
+	length: number
+): AveError {
+	const lines = source.slice(0, start).split("\n");
+	return {
+		type: ErrorType.ConfigError,
+		startPos: start,
+		endPos: start + length,
+		line: lines.length,
+		column: lines[lines.length - 1].length + 1,
+		message,
+		fileName,
+	};
+}
@@ -109,6 +109,7 @@ export function tokenName(t: TokenType): string {
     case TokenType.FALL:           return 'FALL';
     case TokenType.TO:             return 'TO';
     case TokenType.IS:             return 'IS';
+    case TokenType.AS:             return 'AS';
     case TokenType.WHEN:           return 'WHEN';
     case TokenType.FUNC:           return 'FUNC';
     case TokenType.RETURN:         return 'RETURN';
@@ -129,12 +130,16 @@ export function tokenName(t: TokenType): string {
     case TokenType.PASS:           return 'PASS';
     case TokenType.IMPORT:         return 'IMPORT';
     case TokenType.EXPORT:         return 'EXPORT';
+    case TokenType.DECLARE:        return 'DECLARE';
     case TokenType.STRING:         return 'STR';
     case TokenType.NUMBER:         return 'NUM';
     case TokenType.BOOL:           return 'BOOL';
     case TokenType.OBJECT:         return 'OBJECT';
     case TokenType.LITERAL_NUM:    return 'LITERAL_NUM';
     case TokenType.LITERAL_STR:    return 'LITERAL_STR';
+    case TokenType.TEMPLATE_HEAD:  return 'TEMPLATE_HEAD';
+    case TokenType.TEMPLATE_MIDDLE:return 'TEMPLATE_MIDDLE';
+    case TokenType.TEMPLATE_TAIL:  return 'TEMPLATE_TAIL';
     case TokenType.LITERAL_HEX:    return 'LITERAL_HEX';
     case TokenType.LITERAL_BINARY: return 'LITERAL_BINARY';
     case TokenType.LITERAL_REGEXP: return 'LITERAL_REGEXP';
@@ -145,6 +150,9 @@ export function tokenName(t: TokenType): string {
     case TokenType.ANY:            return 'ANY';
     case TokenType.STRUCT:         return 'RECORD';
     case TokenType.SPREAD:         return 'SPREAD';
+    case TokenType.QUESTION_DOT:   return 'QUESTION_DOT';
+    case TokenType.QUESTION_QUESTION: return 'QUESTION_QUESTION';
+    case TokenType.QUESTION:       return 'QUESTION';
     case TokenType.TYPE:           return 'TYPE';
     default:
       return 'UNKNOWN';
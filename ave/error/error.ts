@@ -5,6 +5,8 @@ export enum ErrorType {
   SyntaxError,
   TypeError,
   ReferenceError,
+  // mistakes in the config file, like unknown options.
+  ConfigError,
 }
 
 export interface AveError {
@@ -25,7 +27,7 @@ export interface AveInfo {
 export type ErrorReportFn = (err: AveError, src: string) => any;
 
 export function getErrorTypeName(et: ErrorType) {
-  return ["SyntaxError", "TypeError", "ReferenceError"][et];
+  return ["SyntaxError", "TypeError", "ReferenceError", "ConfigError"][et];
 }
 
 export function makeInfo(message: string, fileName: string): AveInfo {
@@ -4,6 +4,7 @@ import JSGenerator from "./compiler/codegen/gen";
 import Parser from "./parser/aveparser";
 import Checker from "./checker/checker";
 import Binder from "./checker/type-binder";
+import CompilationContext from "./compiler/context";
 
 function toJS(filename: string, src: string): string {
 	const lexer = new Lexer(filename, src);
@@ -28,27 +29,12 @@ function toJS(filename: string, src: string): string {
 	return jsGen.generateJS();
 }
 
-const code = `
-
-type LLNode<T> = { data: T, next: LLNode<T> | nil };
-const head: LLNode<num> = 
-  data: 10
-  next:
-    data: 20
-    next: nil
-`;
-
-const parseTree = new Parser(new Lexer("<test>", code).lex()).parse();
-const binder = new Binder(parseTree);
-binder.bind();
-const checker = new Checker(parseTree);
-console.log(new JSGenerator(checker.check().ast).generateJS());
-
 export default {
 	Lexer,
 	Parser,
 	Checker,
 	JSGenerator,
+	CompilationContext,
 	toJS,
 	printToken: debug.printToken,
 	printTokens: debug.printTokens,
@@ -14,6 +14,7 @@ const keywords: Map<string, TType> = new Map([
   ['var'      , TType.VAR     ],
   ['return'   , TType.RETURN  ],
   ['this'     , TType.THIS    ],
+  ['super'    , TType.SUPER   ],
   ['true'     , TType.TRUE    ],
   ['while'    , TType.WHILE   ],
   ['break'    , TType.BREAK   ],
@@ -32,12 +33,15 @@ const keywords: Map<string, TType> = new Map([
   ['fall'     , TType.FALL    ],
   ['to'       , TType.TO      ],
   ['is'       , TType.IS      ],
+  ['as'       , TType.AS      ],
   ['when'     , TType.WHEN    ],
+  ['match'    , TType.MATCH   ],
   ['set'      , TType.SET     ],
   ['get'      , TType.GET     ],
   ['new'      , TType.NEW     ],
   ['export'   , TType.EXPORT  ],
   ['import'   , TType.IMPORT  ],
+  ['declare'  , TType.DECLARE ],
   ['type'     , TType.TYPE    ],
   ['struct'   , TType.STRUCT  ],
   
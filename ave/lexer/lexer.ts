@@ -36,6 +36,15 @@ export interface ScannedData {
 
 type indent_specifier = "(" | "[" | "->";
 
+// an interpolation "{...}" inside a string
+// that the lexer is currently in.
+interface Interpolation {
+  // quote character of the enclosing string.
+  quote: string;
+  // number of unclosed '{' inside the interpolation.
+  braceDepth: number;
+}
+
 export default class Lexer {
   private readonly sourceCode: string;
   // current Indentation level
@@ -43,6 +52,7 @@ export default class Lexer {
   // indentation level stack
   private indentLevels: number[] = [];
   private indentSpecifiers: indent_specifier[] = [];
+  private interpolations: Interpolation[] = [];
   private tokens: Token[] = [];
   private current: number = 0;
   private start: number = 0;
@@ -139,6 +149,10 @@ export default class Lexer {
       this.scanToken();
     }
 
+    if (this.interpolations.length && !this.hasError) {
+      this.error("Unterminated string interpolation.");
+    }
+
     while (this.indentLevels.length) {
       this.indentLevels.pop();
       this.addToken(TokenType.DEDENT, null, "<DEDENT>");
@@ -154,17 +168,50 @@ export default class Lexer {
     };
   }
 
-  private lexString(quote: string) {
+  // lexes a string, or the part of an interpolated string
+  // that follows the closing '}' of an interpolation.
+  private lexString(quote: string, isContinued = false) {
     while (!this.eof() && !this.check(quote)) {
       if (this.check("\n")) this.newLine();
+      // skip escaped characters like \" and \{
+      if (this.check("\\")) this.next();
+      else if (this.check("{")) break;
       this.next();
     }
-    if (this.eof()) this.error("Unterminated string literal");
-    this.next(); //consume closing quote
-    this.addToken(
-      TokenType.LITERAL_STR,
-      this.sourceCode.substring(this.start + 1, this.current - 1)
-    );
+
+    if (this.eof()) {
+      this.error("Unterminated string literal");
+      return;
+    }
+
+    // consume the closing quote, or the '{'.
+    const isInterpolated = this.next() == "{";
+    let value = this.sourceCode.substring(this.start + 1, this.current - 1);
+
+    if (isInterpolated) {
+      // "${a}" is the same as "{a}".
+      if (value[value.length - 1] == "$") value = value.slice(0, -1);
+      this.interpolations.push({ quote, braceDepth: 0 });
+      const type = isContinued ? TokenType.TEMPLATE_MIDDLE : TokenType.TEMPLATE_HEAD;
+      this.addToken(type, value);
+    } else {
+      const type = isContinued ? TokenType.TEMPLATE_TAIL : TokenType.LITERAL_STR;
+      this.addToken(type, value);
+    }
+  }
+
+  private lexClosingBrace() {
+    const interpolation = this.interpolations[this.interpolations.length - 1];
+
+    if (interpolation && interpolation.braceDepth == 0) {
+      // end of an interpolation, the string continues.
+      this.interpolations.pop();
+      this.lexString(interpolation.quote, true);
+      return;
+    }
+
+    if (interpolation) interpolation.braceDepth--;
+    this.addToken(TokenType.R_BRACE);
   }
 
   private lexNumber() {
@@ -321,6 +368,14 @@ export default class Lexer {
       case ",":
         this.addToken(TokenType.COMMA);
         break;
+      case "@":
+        this.addToken(TokenType.AT);
+        break;
+      case "?":
+        if (this.match(".")) this.addToken(TokenType.QUESTION_DOT);
+        else if (this.match("?")) this.addToken(TokenType.QUESTION_QUESTION);
+        else this.addToken(TokenType.QUESTION);
+        break;
       case "|":
         this.addToken(TokenType.PIPE);
         break;
@@ -371,9 +426,12 @@ export default class Lexer {
         break;
       case "{":
         this.addToken(TokenType.L_BRACE);
+        if (this.interpolations.length) {
+          this.interpolations[this.interpolations.length - 1].braceDepth++;
+        }
         break;
       case "}":
-        this.addToken(TokenType.R_BRACE);
+        this.lexClosingBrace();
         break;
       case "+":
         if (this.match("=")) this.addToken(TokenType.PLUS_EQ);
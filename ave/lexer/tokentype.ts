@@ -52,6 +52,9 @@ enum TokenType {
   PIPE,
   XOR,
   SPREAD,
+  QUESTION_DOT,
+  QUESTION_QUESTION,
+  QUESTION,
 
   // Keywords
   OR,
@@ -68,9 +71,12 @@ enum TokenType {
   TO,
   IS,
   WHEN,
+  MATCH,
+  AS,
   FUNC,
   RETURN,
   THIS,
+  SUPER,
   IN,
   OF,
   FOR,
@@ -88,6 +94,7 @@ enum TokenType {
   PASS,
   IMPORT,
   EXPORT,
+  DECLARE,
   STRUCT,
   TYPE,
   // primary data types
@@ -103,6 +110,11 @@ enum TokenType {
   // literals
   LITERAL_NUM,
   LITERAL_STR,
+  // pieces of an interpolated string "a {b} c {d} e"
+  // are lexed as: TEMPLATE_HEAD('a '), b, TEMPLATE_MIDDLE(' c '), d, TEMPLATE_TAIL(' e')
+  TEMPLATE_HEAD,
+  TEMPLATE_MIDDLE,
+  TEMPLATE_TAIL,
   LITERAL_HEX,
   LITERAL_BINARY,
   LITERAL_REGEXP,
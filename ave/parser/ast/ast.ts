@@ -6,6 +6,8 @@ import { DeclarationKind } from "../symbol_table/symtable";
 import TokenType = require("../../lexer/tokentype");
 import Declaration from "../../type/declaration";
 import { t_Function } from "../../type/function-type";
+import ClassType from "../../type/class-type";
+import EnumType from "../../type/enum-type";
 
 interface ASTNode {
 	toString(): string;
@@ -101,7 +103,7 @@ export class Program extends Node {
 	}
 }
 
-type TypeNode = StructDecl | TypeDef;
+export type TypeNode = StructDecl | TypeDef | ClassDecl | EnumDecl;
 
 export class Body extends Node {
 	public readonly statements: Node[] = [];
@@ -113,7 +115,7 @@ export class Body extends Node {
 	/**
 	 * Binds a name (string) to a certain type's AST Node.
 	 * @param {string} name name of the type.
-	 * @param {StructDecl | TypeDef} type ASTNode containing the type declaration.
+	 * @param {StructDecl | TypeDef | ClassDecl} type ASTNode containing the type declaration.
 	 */
 	public bindTypeNode(name: string, type: TypeNode) {
 		this.typedecls.set(name, type);
@@ -197,16 +199,101 @@ export class MemberAccessExpr extends Expression {
 	readonly kind = NodeKind.MemberAcessExpr;
 	// whether it is computed (accessed using "[]") or not.
 	readonly isIndexed: boolean;
-
-	constructor(dot: Token, obj: Expression, prop: Expression, isIndex: boolean = false) {
+	// whether it is accessed using "?." or not.
+	readonly isOptional: boolean;
+
+	constructor(
+		dot: Token,
+		obj: Expression,
+		prop: Expression,
+		isIndex: boolean = false,
+		isOptional: boolean = false
+	) {
 		super(dot);
 		this.object = obj;
 		this.property = prop;
 		this.isIndexed = isIndex;
+		this.isOptional = isOptional;
+	}
+
+	toString() {
+		return this.object + (this.isOptional ? "?." : ".") + this.property;
+	}
+}
+
+// 'this', or the implicit receiver in the '@name' shorthand.
+export class ThisExpr extends Expression {
+	readonly kind = NodeKind.ThisExpr;
+
+	constructor(tok: Token) {
+		super(tok);
 	}
 
 	toString() {
-		return this.object + "." + this.property;
+		return "this";
+	}
+}
+
+// 'super', either called in a constructor or used to access base class members.
+export class SuperExpr extends Expression {
+	readonly kind = NodeKind.SuperExpr;
+
+	constructor(tok: Token) {
+		super(tok);
+	}
+
+	toString() {
+		return "super";
+	}
+}
+
+export class NewExpr extends Expression {
+	readonly callee: Expression;
+	readonly args: Expression[] = [];
+	readonly kind = NodeKind.NewExpr;
+	// explicit type arguments of a generic constructor, like `<str, num>` in `new Map<str, num>()`.
+	typeArgs: TypeInfo[] = [];
+
+	constructor(kw: Token, callee: Expression) {
+		super(kw);
+		this.callee = callee;
+	}
+
+	toString() {
+		return `new ${this.callee.toString()}(${this.args.join(", ")})`;
+	}
+}
+
+export interface MatchArm {
+	// the 'when' or 'default' keyword.
+	token: Token;
+	// a literal value, or a type to test against.
+	// null for the default arm.
+	pattern: Expression | TypeInfo | null;
+	body: Expression;
+}
+
+export class MatchExpr extends Expression {
+	readonly subject: Expression;
+	readonly arms: MatchArm[] = [];
+	readonly kind = NodeKind.MatchExpr;
+
+	constructor(kw: Token, subject: Expression) {
+		super(kw);
+		this.subject = subject;
+	}
+
+	toString() {
+		let str = `match ${this.subject}:\n`;
+		indent();
+		str += this.arms
+			.map(arm => {
+				const head = arm.pattern ? `when ${arm.pattern}` : "default";
+				return `${indentstr()}${head} -> ${arm.body}`;
+			})
+			.join("\n");
+		dedent();
+		return str;
 	}
 }
 
@@ -226,6 +313,78 @@ export class Literal extends Expression {
 	}
 }
 
+// An interpolated string like "Hello {name}!".
+// `strings` has one more element than `expressions`,
+// the expressions go in between the strings.
+export class TemplateLiteral extends Expression {
+	readonly strings: string[];
+	readonly expressions: Expression[];
+	readonly kind = NodeKind.TemplateLiteral;
+
+	constructor(tok: Token, strings: string[], expressions: Expression[]) {
+		super(tok);
+		this.strings = strings;
+		this.expressions = expressions;
+	}
+
+	toString(): string {
+		let str = chalk.green('"' + this.strings[0]);
+		this.expressions.forEach((e, i) => {
+			str += `{${e}}` + chalk.green(this.strings[i + 1]);
+		});
+		return str + chalk.green('"');
+	}
+}
+
+// "...expr" in calls, arrays and objects.
+export class SpreadExpr extends Expression {
+	readonly expr: Expression;
+	readonly kind = NodeKind.SpreadExpr;
+
+	constructor(spread: Token, expr: Expression) {
+		super(spread);
+		this.expr = expr;
+	}
+
+	toString(): string {
+		return `...${this.expr}`;
+	}
+}
+
+// expr as Type
+export class CastExpr extends Expression {
+	readonly expr: Expression;
+	readonly typeInfo: TypeInfo;
+	readonly kind = NodeKind.CastExpr;
+
+	constructor(expr: Expression, as: Token, typeInfo: TypeInfo) {
+		super(as);
+		this.expr = expr;
+		this.typeInfo = typeInfo;
+	}
+
+	toString(): string {
+		return `(${this.expr} ${baseColor("as")} ${this.typeInfo})`;
+	}
+}
+
+// a test like `value is num`, that checks the type of a value at runtime.
+export class TypeTestExpr extends Expression {
+	readonly expr: Expression;
+	readonly typeInfo: TypeInfo;
+	readonly kind = NodeKind.TypeTestExpr;
+
+	constructor(expr: Expression, is: Token, typeInfo: TypeInfo) {
+		super(is);
+		this.expr = expr;
+		this.typeInfo = typeInfo;
+	}
+
+	toString(): string {
+		return `(${this.expr} ${baseColor("is")} ${this.typeInfo})`;
+	}
+}
+
 export class Identifier extends Expression {
 	readonly name: string;
 	readonly kind = NodeKind.Identifier;
@@ -283,13 +442,20 @@ export class CallExpr extends Expression {
 	readonly args: Expression[] = [];
 	readonly callee: Expression;
 	readonly kind = NodeKind.CallExpr;
-	constructor(callee: Expression, lparen: Token) {
+	// whether it is called using "?.()" or not.
+	readonly isOptional: boolean;
+	// explicit type arguments of a generic function, like `<num>` in `first<num>(xs)`.
+	typeArgs: TypeInfo[] = [];
+
+	constructor(callee: Expression, lparen: Token, isOptional: boolean = false) {
 		super(lparen);
 		this.callee = callee;
+		this.isOptional = isOptional;
 	}
 
 	toString() {
-		return `<callexpr> ${this.callee.toString()}(${this.args.join(", ")})`;
+		const call = this.isOptional ? "?.(" : "(";
+		return `<callexpr> ${this.callee.toString()}${call}${this.args.join(", ")})`;
 	}
 }
 
@@ -308,6 +474,8 @@ export class ArrayExpr extends Expression {
 }
 
 export class ObjectExpr extends Expression {
+	// spread properties "...obj" are stored with the
+	// '...' token as key and a SpreadExpr as value.
 	readonly kvPairs: Map<Token, Expression> = new Map();
 	readonly kind = NodeKind.ObjectExpr;
 
@@ -317,7 +485,7 @@ export class ObjectExpr extends Expression {
 
 	toString() {
 		return `{${Array.from(this.kvPairs)
-			.map(e => `${e[0].raw}: ${e[1].toString()}`)
+			.map(e => (e[1].kind == NodeKind.SpreadExpr ? `${e[1]}` : `${e[0].raw}: ${e[1]}`))
 			.join(", ")}}`;
 	}
 }
@@ -331,8 +499,8 @@ export class FunctionExpr extends Expression {
 	returnTypeInfo: TypeInfo;
 	type: Type = t_Function;
 	readonly isArrow: boolean;
-	readonly isGeneric: boolean = false;
-	readonly typeParams: Type[] = [];
+	// type parameters of a generic function, like `<T>` in `func <T>first(items: T[])`.
+	typeParams: Type[] = [];
 
 	constructor(kw: Token, returnType: TypeInfo, isArrow = false) {
 		super(kw);
@@ -340,6 +508,10 @@ export class FunctionExpr extends Expression {
 		this.returnTypeInfo = returnType;
 	}
 
+	get isGeneric(): boolean {
+		return this.typeParams.length > 0;
+	}
+
 	addParam(p: FunctionParam) {
 		this.params.push(p);
 	}
@@ -395,6 +567,8 @@ export class ForStmt extends Node {
 	readonly iterator: Identifier;
 	readonly body: Body;
 	readonly kind = NodeKind.ForStmt;
+	// the name that 'break' and 'continue' use to refer to the loop.
+	label?: Identifier;
 
 	constructor(kw: Token, i: Identifier, start: Expression, stop: Expression, step?: Expression) {
 		super(kw);
@@ -415,10 +589,95 @@ export class ForStmt extends Node {
 	}
 }
 
+export class ForOfStmt extends Node {
+	readonly iterator: Identifier;
+	readonly iterable: Expression;
+	readonly body: Body;
+	readonly kind = NodeKind.ForOfStmt;
+	label?: Identifier;
+
+	constructor(kw: Token, i: Identifier, iterable: Expression) {
+		super(kw);
+		this.iterator = i;
+		this.iterable = iterable;
+		this.body = new Body();
+	}
+
+	toString() {
+		let str = `for ${this.iterator.toString()} of ${this.iterable.toString()}`;
+		indent();
+		str += "\n" + this.body.toString();
+		dedent();
+		return str;
+	}
+}
+
+export class ForInStmt extends Node {
+	readonly iterator: Identifier;
+	readonly object: Expression;
+	readonly body: Body;
+	readonly kind = NodeKind.ForInStmt;
+	label?: Identifier;
+
+	constructor(kw: Token, i: Identifier, object: Expression) {
+		super(kw);
+		this.iterator = i;
+		this.object = object;
+		this.body = new Body();
+	}
+
+	toString() {
+		let str = `for ${this.iterator.toString()} in ${this.object.toString()}`;
+		indent();
+		str += "\n" + this.body.toString();
+		dedent();
+		return str;
+	}
+}
+
+export interface SwitchCase {
+	// the 'case' or 'default' keyword.
+	token: Token;
+	// values to compare against, empty for the default case.
+	tests: Expression[];
+	body: Body;
+	isDefault: boolean;
+	// true if the case ends with 'fall'.
+	fallsThrough: boolean;
+}
+
+export class SwitchStmt extends Node {
+	readonly discriminant: Expression;
+	readonly cases: SwitchCase[] = [];
+	readonly kind = NodeKind.SwitchStmt;
+
+	constructor(kw: Token, discriminant: Expression) {
+		super(kw);
+		this.discriminant = discriminant;
+	}
+
+	toString() {
+		let str = `switch ${this.discriminant}:\n`;
+		indent();
+		str += this.cases
+			.map(c => {
+				const head = c.isDefault ? "default" : `case ${c.tests.join(", ")}`;
+				indent();
+				const body = c.body.toString() + (c.fallsThrough ? `\n${indentstr()}fall` : "");
+				dedent();
+				return `${indentstr()}${head}:\n${body}`;
+			})
+			.join("\n");
+		dedent();
+		return str;
+	}
+}
+
 export class WhileStmt extends Node {
 	readonly condition: Expression;
 	readonly body: Body;
 	readonly kind = NodeKind.WhileStmt;
+	label?: Identifier;
 	constructor(kw: Token, cond: Expression) {
 		super(kw);
 		this.condition = cond;
@@ -430,6 +689,8 @@ export class WhileStmt extends Node {
 	}
 }
 
+export type LoopStmt = ForStmt | ForOfStmt | ForInStmt | WhileStmt;
+
 export interface FunctionParam {
 	name: string;
 	typeInfo: TypeInfo;
@@ -469,6 +730,36 @@ export class FunctionDeclaration extends Node {
 	}
 }
 
+export class BreakStmt extends Node {
+	// the loop to exit, when it is not the innermost one.
+	readonly label?: Identifier;
+	readonly kind = NodeKind.BreakStmt;
+
+	constructor(kw: Token, label?: Identifier) {
+		super(kw);
+		this.label = label;
+	}
+
+	public toString() {
+		return this.label ? `break ${this.label.name}` : "break";
+	}
+}
+
+export class ContinueStmt extends Node {
+	// the loop to continue, when it is not the innermost one.
+	readonly label?: Identifier;
+	readonly kind = NodeKind.ContinueStmt;
+
+	constructor(kw: Token, label?: Identifier) {
+		super(kw);
+		this.label = label;
+	}
+
+	public toString() {
+		return this.label ? `continue ${this.label.name}` : "continue";
+	}
+}
+
 export class ReturnStmt extends Node {
 	readonly expr?: Expression;
 	readonly kind = NodeKind.ReturnStmt;
@@ -503,6 +794,11 @@ export class StructDecl extends Node {
 	// the struct is a Generic.
 	readonly typeParams: Type[] = [];
 	readonly properties: Map<Token, TypeInfo> = new Map();
+	// names of the properties that objects of the struct may leave out.
+	readonly optionalProperties: Set<string> = new Set();
+	// the construct signature, like `new (name: str) -> Person`,
+	// that lets values of the struct's type be called with 'new'.
+	constructorType: TypeInfo | null = null;
 	readonly kind = NodeKind.RecordDeclaration;
 
 	constructor(name: Token, isGeneric = false, typeArgs: Type[]) {
@@ -523,6 +819,316 @@ export class StructDecl extends Node {
 	}
 }
 
+export interface ClassProperty {
+	name: Token;
+	typeInfo: TypeInfo;
+	value: Expression | null;
+	isStatic: boolean;
+}
+
+export interface ClassMethod {
+	name: Token;
+	lambda: FunctionExpr;
+	isStatic: boolean;
+}
+
+export class ClassDecl extends Node {
+	readonly name: string;
+	readonly properties: ClassProperty[] = [];
+	readonly methods: ClassMethod[] = [];
+	ctor: FunctionExpr | null = null;
+	// name of the base class in 'class Dog < Animal'
+	superClass: Identifier | null = null;
+	// set by the type binder once the
+	// class type has been constructed.
+	type: ClassType | null = null;
+	readonly kind = NodeKind.ClassDecl;
+
+	constructor(name: Token) {
+		super(name);
+		this.name = name.raw;
+	}
+
+	toString() {
+		let str = `${chalk.grey("class")} ${this.name}`;
+		if (this.superClass) str += ` < ${this.superClass.name}`;
+		str += ":\n";
+		indent();
+		const members = this.properties.map(
+			p => `${indentstr()} ${p.isStatic ? "static " : ""}${p.name.raw}: ${p.typeInfo.toString()}`
+		);
+		if (this.ctor) members.push(`${indentstr()} new ${this.ctor.toString()}`);
+		for (const m of this.methods) {
+			members.push(
+				`${indentstr()} ${m.isStatic ? "static " : ""}${m.name.raw} ${m.lambda.toString()}`
+			);
+		}
+		str += members.join("\n");
+		dedent();
+		return str;
+	}
+}
+
+export interface EnumMember {
+	name: Token;
+	// values are either written explicitly, or
+	// auto incremented from the previous member.
+	value: number | string;
+}
+
+export class EnumDecl extends Node {
+	readonly name: string;
+	readonly members: EnumMember[] = [];
+	// set by the type binder.
+	type: EnumType | null = null;
+	readonly kind = NodeKind.EnumDecl;
+
+	constructor(name: Token) {
+		super(name);
+		this.name = name.raw;
+	}
+
+	toString() {
+		let str = `${chalk.grey("enum")} ${this.name}:\n`;
+		indent();
+		str += this.members.map(m => `${indentstr()} ${m.name.raw} = ${m.value}`).join("\n");
+		dedent();
+		return str;
+	}
+}
+
+// declares a value that is defined outside of Ave,
+// like 'declare const document: Document'.
+export class AmbientDecl extends Node {
+	readonly name: string;
+	readonly typeInfo: TypeInfo;
+	readonly declarationKind: DeclarationKind;
+	readonly kind = NodeKind.AmbientDecl;
+
+	constructor(name: Token, typeInfo: TypeInfo, declarationKind: DeclarationKind) {
+		super(name);
+		this.name = name.raw;
+		this.typeInfo = typeInfo;
+		this.declarationKind = declarationKind;
+	}
+
+	toString() {
+		return `${chalk.grey("declare")} ${this.name}: ${this.typeInfo.toString()}`;
+	}
+}
+
+// a name exported by a module, along with the type of it's
+// value and the type it refers to in type annotations.
+export interface ModuleExport {
+	name: string;
+	type: Type | null;
+	boundType: Type | null;
+}
+
+export class ImportDecl extends Node {
+	readonly names: Identifier[];
+	readonly path: Token;
+	// exports of the imported module, set by the compilation
+	// context once the module has been compiled.
+	exports: Map<string, ModuleExport> | null = null;
+	readonly kind = NodeKind.ImportDecl;
+
+	constructor(kw: Token, names: Identifier[], path: Token) {
+		super(kw);
+		this.names = names;
+		this.path = path;
+	}
+
+	get source(): string {
+		return this.path.value as string;
+	}
+
+	toString() {
+		const names = this.names.map(n => n.name).join(", ");
+		return `${chalk.grey("import")} { ${names} } from "${this.source}"`;
+	}
+}
+
+export class ExportDecl extends Node {
+	readonly declaration: Node;
+	// types of the exported values, set by the checker.
+	readonly types: Map<string, Type> = new Map();
+	// types the exported names refer to in
+	// type annotations, set by the type binder.
+	readonly boundTypes: Map<string, Type> = new Map();
+	readonly kind = NodeKind.ExportDecl;
+
+	constructor(kw: Token, declaration: Node) {
+		super(kw);
+		this.declaration = declaration;
+	}
+
+	// names declared by the exported declaration.
+	get names(): string[] {
+		const decl = this.declaration;
+		switch (decl.kind) {
+			case NodeKind.VarDeclaration:
+				return (decl as VarDeclaration).declarators.map(d => d.name);
+			case NodeKind.FunctionDecl:
+			case NodeKind.ClassDecl:
+			case NodeKind.EnumDecl:
+			case NodeKind.TypeAlias:
+			case NodeKind.RecordDeclaration:
+				return [(decl as FunctionDeclaration | ClassDecl | EnumDecl | TypeDef | StructDecl).name];
+		}
+		return [];
+	}
+
+	toString() {
+		return `${chalk.grey("export")} ${this.declaration.toString()}`;
+	}
+}
+
+/**
+ * Returns `true` if the statement is a call to the base class constructor.
+ * @param stmt {Node} statement in a constructor body.
+ */
+export function isSuperCall(stmt: Node): boolean {
+	if (stmt.kind != NodeKind.ExprStmt) return false;
+	const expr = (stmt as ExprStmt).expr;
+	return expr.kind == NodeKind.CallExpr && (expr as CallExpr).callee.kind == NodeKind.SuperExpr;
+}
+
+/**
+ * Returns the names of the variables that are assigned
+ * to anywhere inside `node`, including nested functions.
+ * @param node {Node} The node to search.
+ * @param names {Set<string>} The set that the names are added to.
+ */
+export function assignedNames(node: Node, names: Set<string> = new Set()): Set<string> {
+	if (node instanceof AssignExpr && node.left instanceof Identifier) names.add(node.left.name);
+	childNodes(node).forEach(child => assignedNames(child, names));
+	return names;
+}
+
+/**
+ * Returns the statements and expressions that are directly inside `node`.
+ * Type annotations are not included.
+ * @param node {Node} The parent node.
+ */
+function childNodes(node: Node): Node[] {
+	switch (node.kind) {
+		case NodeKind.Program:
+			return [(node as Program).body];
+		case NodeKind.Body:
+			return (node as Body).statements;
+		case NodeKind.VarDeclaration:
+			return (node as VarDeclaration).declarators;
+		case NodeKind.VarDeclarator: {
+			const value = (node as VarDeclarator).value;
+			return value ? [value] : [];
+		}
+		case NodeKind.BinaryExpr:
+		case NodeKind.AssignmentExpr:
+			return [(node as BinaryExpr).left, (node as BinaryExpr).right];
+		case NodeKind.PrefixUnaryExpr:
+		case NodeKind.PostfixUnaryExpr:
+			return [(node as PrefixUnaryExpr | PostfixUnaryExpr).operand];
+		case NodeKind.GroupingExpr:
+		case NodeKind.SpreadExpr:
+		case NodeKind.CastExpr:
+		case NodeKind.TypeTestExpr:
+			return [(node as GroupExpr | SpreadExpr | CastExpr | TypeTestExpr).expr];
+		case NodeKind.MemberAcessExpr:
+			return [(node as MemberAccessExpr).object, (node as MemberAccessExpr).property];
+		case NodeKind.CallExpr:
+			return [(node as CallExpr).callee, ...(node as CallExpr).args];
+		case NodeKind.NewExpr:
+			return [(node as NewExpr).callee, ...(node as NewExpr).args];
+		case NodeKind.TemplateLiteral:
+			return (node as TemplateLiteral).expressions;
+		case NodeKind.ArrayExpr:
+			return (node as ArrayExpr).elements;
+		case NodeKind.ObjectExpr:
+			return Array.from((node as ObjectExpr).kvPairs.values());
+		case NodeKind.MatchExpr: {
+			const match = node as MatchExpr;
+			const children: Node[] = [match.subject];
+			match.arms.forEach(arm => {
+				if (arm.pattern instanceof Expression) children.push(arm.pattern);
+				children.push(arm.body);
+			});
+			return children;
+		}
+		case NodeKind.FunctionExpr: {
+			const func = node as FunctionExpr;
+			const defaults: Node[] = [];
+			func.params.forEach(p => p.defaultValue && defaults.push(p.defaultValue));
+			return [...defaults, func.body];
+		}
+		case NodeKind.FunctionDecl:
+			return [(node as FunctionDeclaration).lambda];
+		case NodeKind.IfStmt: {
+			const stmt = node as IfStmt;
+			return stmt.elseBody
+				? [stmt.condition, stmt.thenBody, stmt.elseBody]
+				: [stmt.condition, stmt.thenBody];
+		}
+		case NodeKind.WhileStmt:
+			return [(node as WhileStmt).condition, (node as WhileStmt).body];
+		case NodeKind.ForStmt: {
+			const stmt = node as ForStmt;
+			const children: Node[] = [stmt.start, stmt.stop];
+			if (stmt.step) children.push(stmt.step);
+			children.push(stmt.body);
+			return children;
+		}
+		case NodeKind.ForOfStmt:
+			return [(node as ForOfStmt).iterable, (node as ForOfStmt).body];
+		case NodeKind.ForInStmt:
+			return [(node as ForInStmt).object, (node as ForInStmt).body];
+		case NodeKind.SwitchStmt: {
+			const stmt = node as SwitchStmt;
+			const children: Node[] = [stmt.discriminant];
+			stmt.cases.forEach(c => children.push(...c.tests, c.body));
+			return children;
+		}
+		case NodeKind.ReturnStmt: {
+			const expr = (node as ReturnStmt).expr;
+			return expr ? [expr] : [];
+		}
+		case NodeKind.ExprStmt:
+			return [(node as ExprStmt).expr];
+		case NodeKind.ClassDecl: {
+			const decl = node as ClassDecl;
+			const children: Node[] = [];
+			decl.properties.forEach(p => p.value && children.push(p.value));
+			if (decl.ctor) children.push(decl.ctor);
+			decl.methods.forEach(m => children.push(m.lambda));
+			return children;
+		}
+		case NodeKind.ExportDecl:
+			return [(node as ExportDecl).declaration];
+	}
+
+	// literals, names, jumps and type declarations have no children.
+	return [];
+}
+
+/**
+ * Returns `true` if `expr` is a part of an optional chain like `a?.b.c`,
+ * that is, if `expr` or anything it is accessed or called on uses `?.`.
+ * @param expr {Expression} The expression to test.
+ */
+export function isOptionalChain(expr: Expression): boolean {
+	if (expr.kind == NodeKind.MemberAcessExpr) {
+		const member = expr as MemberAccessExpr;
+		return member.isOptional || isOptionalChain(member.object);
+	}
+
+	if (expr.kind == NodeKind.CallExpr) {
+		const call = expr as CallExpr;
+		return call.isOptional || isOptionalChain(call.callee);
+	}
+
+	return false;
+}
+
 export class TypeDef extends Node {
 	readonly name: string;
 	readonly typeInfo: TypeInfo;
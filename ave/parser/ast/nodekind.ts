@@ -5,6 +5,9 @@ const enum NodeKind {
   VarDeclaration,
   VarDeclarator,
   Literal,
+  TemplateLiteral,
+  CastExpr,
+  SpreadExpr,
   Identifier,
   BinaryExpr,
   ExprStmt,
@@ -16,6 +19,8 @@ const enum NodeKind {
   WhileStmt,
   CallExpr,
   ForStmt,
+  ForOfStmt,
+  ForInStmt,
   ArrayExpr,
   ReturnStmt,
   FunctionDecl,
@@ -24,6 +29,19 @@ const enum NodeKind {
   FunctionExpr,
   MemberAcessExpr,
   TypeAlias,
+  ClassDecl,
+  ThisExpr,
+  NewExpr,
+  SuperExpr,
+  EnumDecl,
+  SwitchStmt,
+  MatchExpr,
+  ImportDecl,
+  ExportDecl,
+  AmbientDecl,
+  TypeTestExpr,
+  BreakStmt,
+  ContinueStmt,
 }
 
 export = NodeKind;
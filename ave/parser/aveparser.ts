@@ -7,13 +7,26 @@ import { ScannedData } from "../lexer/lexer";
 import * as Typing from "../type/types";
 import { AssignmentParser } from "./parselets/assign";
 import { DeclarationKind, getDeclarationKind } from "./symbol_table/symtable";
-import { callParser } from "./parselets/call";
-import { FuncDeclaration, HoistedVarDeclaration } from "../type/declaration";
+import { callParser, parseArguments } from "./parselets/call";
+import BinaryParselet from "./parselets/binary";
+import {
+	AmbientDeclaration,
+	ClassDeclaration,
+	EnumDeclaration,
+	FuncDeclaration,
+	HoistedVarDeclaration,
+} from "../type/declaration";
 import { ArrayParser } from "./parselets/array";
 import { ObjectParser, InfixObjectParser } from "./parselets/object";
-import parseType from "./parselets/type-parser";
+import parseType, { parseTypeArguments, parseTypeParams } from "./parselets/type-parser";
 import MemberExprParser = require("./parselets/member-access");
+import { NewParser } from "./parselets/new";
+import { CastParser, TypeTestParser } from "./parselets/cast";
+import { OptionalChainParser } from "./parselets/optional-chain";
 import NodeKind = require("./ast/nodekind");
+import { GenericFunctionType, t_Array } from "../type/generic-type";
+import { ErrorReportFn } from "../error/error";
+import FunctionType, { ParameterTypeInfo } from "../type/function-type";
 
 export default class AveParser extends Parser {
 	// stack of block and function scopes. This is
@@ -25,8 +38,8 @@ export default class AveParser extends Parser {
 	private blockScopestack: AST.Body[] = [];
 	private functionScopestack: AST.Body[] = [];
 
-	constructor(lexData: ScannedData) {
-		super(lexData);
+	constructor(lexData: ScannedData, reporter?: ErrorReportFn) {
+		super(lexData, reporter);
 
 		this.blockScopestack.push(this.ast.body);
 
@@ -56,11 +69,42 @@ export default class AveParser extends Parser {
 			return new AST.Literal(token, null);
 		});
 
+		this.prefix(TType.THIS, Precedence.NONE, (_, token) => {
+			return new AST.ThisExpr(token);
+		});
+
+		this.prefix(TType.SUPER, Precedence.NONE, (_, token) => {
+			return new AST.SuperExpr(token);
+		});
+
+		// '@name' is a shorthand for 'this.name'
+		this.prefix(TType.AT, Precedence.NONE, (parser, at) => {
+			const name = parser.expect(TType.NAME, "Expected property name after '@'.");
+			return new AST.MemberAccessExpr(at, new AST.ThisExpr(at), new AST.Identifier(name));
+		});
+
+		// new ClassName(arg1, arg2)
+		this.prefix(TType.NEW, Precedence.NEW, NewParser);
+
 		// a stupid type case workaround but it works.
 		this.prefix(TType.FUNC, Precedence.NONE, (parser, token) => {
 			return (<AveParser>parser).funcExpr(token);
 		});
 
+		// spread "...xs", the checker makes sure it
+		// only appears in calls, arrays and objects.
+		this.prefix(TType.SPREAD, Precedence.NONE, (parser, spread) => {
+			return new AST.SpreadExpr(spread, parser.parseExpression(Precedence.ASSIGN));
+		});
+
+		this.prefix(TType.TEMPLATE_HEAD, Precedence.NONE, (parser, token) => {
+			return (<AveParser>parser).templateLiteral(token);
+		});
+
+		this.prefix(TType.MATCH, Precedence.NONE, (parser, token) => {
+			return (<AveParser>parser).matchExpr(token);
+		});
+
 		// object expressions starting on a new line with an indent token
 		this.prefix(TType.INDENT, Precedence.NONE, ObjectParser);
 
@@ -135,14 +179,30 @@ export default class AveParser extends Parser {
 
 		this.infix(TType.GREATER, Precedence.COMPARISON);
 		this.infix(TType.GREATER_EQ, Precedence.COMPARISON);
-		this.infix(TType.LESS, Precedence.COMPARISON);
+		// '<' is either a comparison, or starts the type arguments of a call like `f<num>(x)`.
+		const comparison = BinaryParselet(Precedence.COMPARISON);
+		this.infix(TType.LESS, Precedence.COMPARISON, false, (parser, left, less) => {
+			if (!(parser as AveParser).isTypeArgumentList((parser as AveParser).current - 1)) {
+				return comparison(parser, left, less);
+			}
+
+			const typeArgs = parseTypeArguments(parser);
+			const lparen = parser.expect(TType.L_PAREN, "Expected '(' after type arguments.");
+			const call = new AST.CallExpr(left, lparen);
+			call.typeArgs = typeArgs;
+			call.args.push(...parseArguments(parser));
+			return call;
+		});
 		this.infix(TType.LESS_EQ, Precedence.COMPARISON);
 		this.infix(TType.GREATER, Precedence.COMPARISON);
 
+		// type casts "a as T"
+		this.infix(TType.AS, Precedence.COMPARISON, false, CastParser);
+
 		// == === != !== is
 
 		this.infix(TType.EQ_EQ, Precedence.EQUALITY);
-		this.infix(TType.IS, Precedence.EQUALITY);
+		this.infix(TType.IS, Precedence.EQUALITY, false, TypeTestParser);
 		this.infix(TType.BANG_EQ, Precedence.EQUALITY);
 
 		// bitwise opearators (| ^ &)->
@@ -156,10 +216,15 @@ export default class AveParser extends Parser {
 		this.infix(TType.AND, Precedence.LOGIC_AND);
 		this.infix(TType.OR, Precedence.LOGIC_OR);
 
+		// nil coalescing "a ?? b"
+		this.infix(TType.QUESTION_QUESTION, Precedence.NIL_COALESCE);
+
 		// member access "a.b"
 		this.infix(TType.DOT, Precedence.MEM_ACCESS, false, MemberExprParser);
 		// computed member acces "a[b]"
 		this.infix(TType.L_SQ_BRACE, Precedence.COMP_MEM_ACCESS, false, MemberExprParser);
+		// optional chaining "a?.b", "a?.[b]" and "a?.(b)"
+		this.infix(TType.QUESTION_DOT, Precedence.MEM_ACCESS, false, OptionalChainParser);
 
 		// (...) grouping expression or an arrow function.
 
@@ -242,6 +307,13 @@ export default class AveParser extends Parser {
 		this.infix(TType.L_PAREN, Precedence.CALL, false, callParser);
 	}
 
+	// a '<' followed by types and then '>(' starts the type
+	// arguments of a call, everywhere else it is a comparison.
+	protected getPrecedence(tokType: TType): number {
+		if (tokType == TType.LESS && this.isTypeArgumentList(this.current)) return Precedence.CALL;
+		return super.getPrecedence(tokType);
+	}
+
 	private currentBlockScope(): AST.Body {
 		return this.blockScopestack[this.blockScopestack.length - 1];
 	}
@@ -271,19 +343,29 @@ export default class AveParser extends Parser {
 	}
 
 	private statement(): AST.Node {
+		// after an error, the rest of the statement is skipped. The
+		// loop must stop at the end of a block, or the block's parser
+		// would keep asking for statements that never arrive.
 		if (this.panicMode) {
-			while (!this.eof()) {
+			recovery: while (!this.eof()) {
 				const ttype = this.peek().type;
 				switch (ttype) {
 					case TType.SEMI_COLON:
 					case TType.DEDENT:
 					case TType.R_BRACE:
-						break;
+						break recovery;
 					default:
 						this.next();
 				}
 			}
 			this.panicMode = false;
+			this.consume(TType.SEMI_COLON);
+
+			// the end of the enclosing block is left
+			// for the block parser to consume.
+			if (this.eof() || this.check(TType.DEDENT) || this.check(TType.R_BRACE)) {
+				return new AST.ExprStmt(new AST.EmptyExpr(this.peek()));
+			}
 		}
 
 		if (this.check(TType.IF)) {
@@ -292,8 +374,12 @@ export default class AveParser extends Parser {
 			return this.forStmt();
 		} else if (this.check(TType.WHILE)) {
 			return this.whileStmt();
+		} else if (this.check(TType.SWITCH)) {
+			return this.switchStmt();
 		} else if (this.check(TType.RETURN)) {
 			return this.returnStmt();
+		} else if (this.check(TType.BREAK) || this.check(TType.CONTINUE)) {
+			return this.jumpStmt();
 		} else {
 			// exression statement
 			const expr = this.expr();
@@ -307,13 +393,23 @@ export default class AveParser extends Parser {
 		if (this.match(TType.VAR, TType.CONST, TType.LET)) {
 			decl = this.varDeclaration(this.prev());
 		} else if (this.check(TType.NAME) && this.checkNext(TType.COLON)) {
-			decl = this.sugarDeclaration();
+			decl = this.labeledLoop() || this.sugarDeclaration();
 		} else if (this.match(TType.FUNC)) {
 			decl = this.funcDecl();
 		} else if (this.match(TType.STRUCT)) {
 			decl = this.structDecl();
 		} else if (this.match(TType.TYPE)) {
 			decl = this.parseTypeAlias();
+		} else if (this.match(TType.CLASS)) {
+			decl = this.classDecl();
+		} else if (this.match(TType.ENUM)) {
+			decl = this.enumDecl();
+		} else if (this.match(TType.IMPORT)) {
+			decl = this.importDecl(this.prev());
+		} else if (this.match(TType.EXPORT)) {
+			decl = this.exportDecl(this.prev());
+		} else if (this.match(TType.DECLARE)) {
+			decl = this.ambientDecl(this.prev());
 		} else {
 			decl = this.statement();
 		}
@@ -321,6 +417,110 @@ export default class AveParser extends Parser {
 		return decl;
 	}
 
+	// 'import' '{' ID (',' ID)* '}' 'from' STRING
+	private importDecl(kw: Token): AST.ImportDecl {
+		if (this.currentBlockScope() != this.ast.body) {
+			this.error("Imports are only allowed at the top level of a file.", kw);
+		}
+
+		this.expect(TType.L_BRACE, "Expected '{' after 'import'.");
+		const names: AST.Identifier[] = [];
+
+		while (!this.match(TType.R_BRACE)) {
+			names.push(new AST.Identifier(this.expect(TType.NAME, "Expected name to import.")));
+			if (!this.match(TType.COMMA)) {
+				this.expect(TType.R_BRACE, "Expected '}' after imported names.");
+				break;
+			}
+		}
+
+		// 'from' is not a keyword, so it can still be used as a name elsewhere.
+		const from = this.expect(TType.NAME, "Expected 'from' after imported names.");
+		if (from.raw != "from") this.error("Expected 'from' after imported names.", from);
+
+		const path = this.expect(TType.LITERAL_STR, "Expected module path after 'from'.");
+		return new AST.ImportDecl(kw, names, path);
+	}
+
+	private exportDecl(kw: Token): AST.ExportDecl {
+		if (this.currentBlockScope() != this.ast.body) {
+			this.error("Exports are only allowed at the top level of a file.", kw);
+		}
+
+		const decl = this.declaration();
+		const exportDecl = new AST.ExportDecl(kw, decl);
+
+		if (!exportDecl.names.length) {
+			this.error("Expected a declaration after 'export'.", kw);
+		}
+
+		return exportDecl;
+	}
+
+	// 'declare' ('const' | 'let' | 'var') ID ':' type
+	// 'declare' 'func' ID '(' params ')' (':' type)?
+	// 'declare' 'struct' ...
+	private ambientDecl(kw: Token): AST.Node {
+		if (this.currentBlockScope() != this.ast.body) {
+			this.error("Ambient declarations are only allowed at the top level of a file.", kw);
+		}
+
+		// structs are never emitted, so a declared
+		// struct is the same as any other struct.
+		if (this.match(TType.STRUCT)) return this.structDecl();
+
+		let decl: AST.AmbientDecl;
+		if (this.match(TType.FUNC)) {
+			decl = this.ambientFuncDecl();
+		} else if (this.match(TType.CONST, TType.LET, TType.VAR)) {
+			decl = this.ambientVarDecl(this.prev());
+		} else {
+			this.error(
+				"Expected 'func', 'const', 'let', 'var' or 'struct' after 'declare'.",
+				this.peek()
+			);
+			return new AST.ExprStmt(new AST.EmptyExpr(kw));
+		}
+
+		this.currentBlockScope().declarations.push(new AmbientDeclaration(decl));
+		return decl;
+	}
+
+	private ambientVarDecl(kw: Token): AST.AmbientDecl {
+		const name = this.expect(TType.NAME, "Expected variable name.");
+		this.expect(TType.COLON, "Ambient declarations must have a type annotation.");
+		const typeInfo = parseType(this);
+
+		if (this.check(TType.EQ)) {
+			this.error("Ambient declarations cannot be initialized.", this.peek());
+		}
+
+		return new AST.AmbientDecl(name, typeInfo, getDeclarationKind(kw.raw));
+	}
+
+	private ambientFuncDecl(): AST.AmbientDecl {
+		const typeParams = this.match(TType.LESS) ? parseTypeParams(this) : [];
+		const name = this.expect(TType.NAME, "Expected function name.");
+		this.expect(TType.L_PAREN, "Expected '(' before function parameters.");
+
+		const params: ParameterTypeInfo[] = [];
+		for (const param of this.parseParams()) {
+			if (param.defaultValue) {
+				this.error("Ambient functions cannot have default parameter values.", param.token);
+			}
+			const { name, typeInfo, required, isRest } = param;
+			params.push({ name, type: typeInfo.type, required: !!required, isRest });
+		}
+
+		// functions declared without a return type return nothing.
+		const returnType = this.match(TType.COLON) ? parseType(this).type : Typing.t_void;
+		const type = typeParams.length
+			? new GenericFunctionType(params, returnType, typeParams)
+			: new FunctionType("", params, returnType);
+
+		return new AST.AmbientDecl(name, new AST.TypeInfo(name, type), DeclarationKind.BlockScope);
+	}
+
 	// ID ':' (type)? '=' exp
 	private sugarDeclaration(): AST.VarDeclaration {
 		// intialize the declaration with 'colon' as the token
@@ -388,12 +588,16 @@ export default class AveParser extends Parser {
 		return new AST.IfStmt(kw, cond, _then, _else);
 	}
 
-	private forStmt(): AST.ForStmt {
+	private forStmt(): AST.ForStmt | AST.ForOfStmt | AST.ForInStmt {
 		const kw = this.next();
 		const i = new AST.Identifier(
 			this.expect(TType.NAME, "Expected a variable name as loop initilializer.")
 		);
 
+		if (this.check(TType.OF) || this.check(TType.IN)) {
+			return this.forEachStmt(kw, i);
+		}
+
 		this.expect(TType.EQ, "Expected '='.");
 		const start = this.expr();
 		this.expect(TType.COMMA, "Expected ','.");
@@ -419,6 +623,40 @@ export default class AveParser extends Parser {
 		return forstmt;
 	}
 
+	// for x of arr
+	// for k in obj
+	private forEachStmt(kw: Token, i: AST.Identifier): AST.ForOfStmt | AST.ForInStmt {
+		const isForOf = this.next().type == TType.OF;
+		const iterable = this.expr();
+		this.consume(TType.COLON);
+
+		// the type of the loop variable is inferred by the checker,
+		// which also adds it to the body's declarations.
+		const stmt = isForOf ? new AST.ForOfStmt(kw, i, iterable) : new AST.ForInStmt(kw, i, iterable);
+
+		this.expect(TType.INDENT, "Expected indented block as for loop body.");
+		this.parseBlock(stmt.body);
+		return stmt;
+	}
+
+	// labeledLoop -> NAME ':' (forStmt | whileStmt)
+	// returns null, without consuming any tokens, if the label is not
+	// followed by a loop. `name: type` declarations start the same way.
+	private labeledLoop(): AST.LoopStmt | null {
+		const start = this.current;
+		const label = new AST.Identifier(this.next());
+		this.next();
+
+		if (!this.check(TType.FOR) && !this.check(TType.WHILE)) {
+			this.current = start;
+			return null;
+		}
+
+		const loop = this.check(TType.FOR) ? this.forStmt() : this.whileStmt();
+		loop.label = label;
+		return loop;
+	}
+
 	private whileStmt() {
 		const kw = this.next();
 		const condition = this.expr();
@@ -429,9 +667,157 @@ export default class AveParser extends Parser {
 		return whilestmt;
 	}
 
+	// switchStmt -> 'switch' expr ':'? <INDENT> switchCase* <DEDENT>
+	private switchStmt(): AST.SwitchStmt {
+		const kw = this.next();
+		const switchStmt = new AST.SwitchStmt(kw, this.expr());
+
+		this.consume(TType.COLON);
+		this.expect(TType.INDENT, "Expected indented block after switch value.");
+
+		while (!this.eof() && !this.match(TType.DEDENT)) {
+			const switchCase = this.switchCase();
+			if (this.panicMode) break;
+
+			if (switchCase.isDefault && switchStmt.cases.some(c => c.isDefault)) {
+				this.error("A switch statement may only have one 'default' case.", switchCase.token);
+				break;
+			}
+
+			switchStmt.cases.push(switchCase);
+		}
+
+		return switchStmt;
+	}
+
+	// switchCase -> ('case' expr (',' expr)* | 'default') ':'? <INDENT> caseBody <DEDENT>
+	private switchCase(): AST.SwitchCase {
+		if (!this.match(TType.CASE, TType.DEFAULT)) {
+			this.error("Expected 'case' or 'default'.", this.peek());
+		}
+
+		const token = this.prev();
+		const isDefault = token.type == TType.DEFAULT;
+		const tests: AST.Expression[] = [];
+
+		if (!isDefault) {
+			do {
+				tests.push(this.expr());
+			} while (this.match(TType.COMMA));
+		}
+
+		this.consume(TType.COLON);
+		this.expect(TType.INDENT, "Expected indented block after case.");
+
+		const body = new AST.Body();
+		const fallsThrough = this.caseBody(body);
+		return { token, tests, body, isDefault, fallsThrough };
+	}
+
+	/**
+	 * Parses the body of a switch case. Returns `true` if
+	 * the body ends with a 'fall' statement.
+	 * @param body The body node to fill with statements.
+	 */
+	private caseBody(body: AST.Body): boolean {
+		let fallsThrough = false;
+
+		this.blockScopestack.push(body);
+		while (!this.eof() && !this.match(TType.DEDENT)) {
+			if (this.match(TType.FALL)) {
+				fallsThrough = true;
+				this.consume(TType.SEMI_COLON);
+				if (!this.check(TType.DEDENT)) {
+					this.error("'fall' must be the last statement in a case.", this.prev());
+				}
+				continue;
+			}
+			body.statements.push(this.declaration());
+		}
+		this.blockScopestack.pop();
+
+		return fallsThrough;
+	}
+
+	// templateLiteral -> TEMPLATE_HEAD expr (TEMPLATE_MIDDLE expr)* TEMPLATE_TAIL
+	private templateLiteral(head: Token): AST.TemplateLiteral {
+		const strings = [head.value as string];
+		const expressions = [this.expr()];
+
+		while (this.match(TType.TEMPLATE_MIDDLE)) {
+			strings.push(this.prev().value as string);
+			expressions.push(this.expr());
+		}
+
+		this.expect(TType.TEMPLATE_TAIL, "Expected '}' after interpolated expression.");
+		strings.push(this.prev().value as string);
+
+		return new AST.TemplateLiteral(head, strings, expressions);
+	}
+
+	// matchExpr -> 'match' expr <INDENT> matchArm+ <DEDENT>
+	private matchExpr(kw: Token): AST.MatchExpr {
+		const matchExpr = new AST.MatchExpr(kw, this.expr());
+		this.expect(TType.INDENT, "Expected indented block after match value.");
+
+		while (!this.eof() && !this.match(TType.DEDENT)) {
+			const arm = this.matchArm();
+			if (this.panicMode) break;
+
+			const arms = matchExpr.arms;
+			if (arms.length && arms[arms.length - 1].pattern == null) {
+				this.error("The 'default' arm must be the last arm of a match.", arm.token);
+				break;
+			}
+
+			arms.push(arm);
+		}
+
+		if (!matchExpr.arms.length) this.error("A match expression must have at least one arm.", kw);
+		return matchExpr;
+	}
+
+	// matchArm -> ('when' pattern | 'default') '->' expr
+	// pattern  -> '-'? NUMBER | STRING | 'true' | 'false' | 'nil' | type
+	private matchArm(): AST.MatchArm {
+		let pattern: AST.Expression | AST.TypeInfo | null = null;
+		let token = this.peek();
+
+		if (!this.match(TType.DEFAULT)) {
+			token = this.expect(TType.WHEN, "Expected 'when' or 'default'.");
+
+			switch (this.peek().type) {
+				case TType.LITERAL_NUM:
+				case TType.LITERAL_STR:
+				case TType.TRUE:
+				case TType.FALSE:
+				case TType.NIL:
+				case TType.MINUS:
+					pattern = this.parseExpression(Precedence.PRE_UNARY);
+					break;
+				default:
+					pattern = parseType(this);
+			}
+		}
+
+		this.expect(TType.ARROW, "Expected '->' after pattern.");
+		const body = this.expr();
+		this.consume(TType.SEMI_COLON);
+
+		return { token, pattern, body };
+	}
+
 	private funcExpr(kw: Token): AST.FunctionExpr {
 		const func = new AST.FunctionExpr(kw, new AST.TypeInfo(this.peek(), Typing.t_infer));
-		this.consume(TType.NAME); // anonymous functions may still have a name
+		// type parameters are written before or after the name,
+		// like `func <T>(x: T)` or `func first<T>(xs: T[])`.
+		if (this.match(TType.LESS)) func.typeParams = parseTypeParams(this);
+		// anonymous functions may still have a name
+		if (this.match(TType.NAME) && this.check(TType.LESS)) {
+			const name = this.prev();
+			this.next();
+			this.setTypeParams(func, parseTypeParams(this), name);
+		}
 		this.expect(TType.L_PAREN, "Expected '(' before function parameters.");
 		func.params = this.parseParams();
 
@@ -445,8 +831,10 @@ export default class AveParser extends Parser {
 	}
 
 	private funcDecl(): AST.FunctionDeclaration {
+		const typeParams = this.match(TType.LESS) ? parseTypeParams(this) : [];
 		const name = this.expect(TType.NAME, "Expected function name.");
-		const lambda = this.funcExpr(this.prev());
+		const lambda = this.funcExpr(name);
+		if (typeParams.length) this.setTypeParams(lambda, typeParams, name);
 
 		// hoist the declaration so that it
 		// can be accessed from anywhere within this block.
@@ -454,6 +842,14 @@ export default class AveParser extends Parser {
 		return new AST.FunctionDeclaration(name.raw, lambda);
 	}
 
+	// a function's type parameters can be written either before or after its name, not both.
+	private setTypeParams(func: AST.FunctionExpr, typeParams: Typing.PlaceHolderType[], name: Token) {
+		if (func.typeParams.length) {
+			this.error("Type parameters cannot be written both before and after the name.", name);
+		}
+		func.typeParams = typeParams;
+	}
+
 	private parseFunctionBody(func: AST.FunctionExpr, isArrow = false) {
 		this.expect(TType.INDENT, "Expected indented block.");
 
@@ -492,10 +888,12 @@ export default class AveParser extends Parser {
 		let defaultValue;
 
 		// TODO check if param required
-		let required = true;
+		let required = !isRest;
 
 		if (this.match(TType.COLON)) {
 			type = parseType(this);
+		} else if (isRest) {
+			type = new AST.TypeInfo(token, t_Array.instantiate([Typing.t_any]));
 		}
 
 		if (this.match(TType.EQ)) {
@@ -512,6 +910,14 @@ export default class AveParser extends Parser {
 		};
 	}
 
+	// jumpStmt -> ('break' | 'continue') NAME?
+	private jumpStmt(): AST.BreakStmt | AST.ContinueStmt {
+		const kw = this.next();
+		const label = this.check(TType.NAME) ? new AST.Identifier(this.next()) : undefined;
+		this.consume(TType.SEMI_COLON);
+		return kw.type == TType.BREAK ? new AST.BreakStmt(kw, label) : new AST.ContinueStmt(kw, label);
+	}
+
 	// returnStmt -> 'return' expr?
 	private returnStmt(): AST.ReturnStmt {
 		const kw = this.next();
@@ -537,7 +943,7 @@ export default class AveParser extends Parser {
 
 		if (this.match(TType.LESS)) {
 			isGeneric = true;
-			typeArgs = this.parseGenericParams();
+			typeArgs = parseTypeParams(this);
 		}
 
 		const struct = new AST.StructDecl(name, isGeneric, typeArgs);
@@ -545,7 +951,12 @@ export default class AveParser extends Parser {
 		this.expect(TType.INDENT, "Expected Indented block.");
 
 		while (!this.match(TType.DEDENT)) {
-			const name = this.expect(TType.NAME, "Expected property name.");
+			if (this.check(TType.NEW)) {
+				struct.constructorType = parseType(this);
+				continue;
+			}
+
+			const name = this.expectPropertyName("Expected property name.");
 			if (name.type != TType.NAME) break;
 			this.expect(TType.COLON, "Expected ':'.");
 			const type = parseType(this);
@@ -556,26 +967,110 @@ export default class AveParser extends Parser {
 		return struct;
 	}
 
-	/**
-	 * Parses generic type paramters like <T, U, K>.
-	 * Assumes the '<' token has been eaten upon call.
-	 * @returns an array of types.
-	 */
-	private parseGenericParams(): Typing.Type[] {
-		const types: Typing.Type[] = [];
+	// classDecl -> 'class' ID ('<' ID)? ':'? <INDENT> classMember* <DEDENT>
+	private classDecl(): AST.ClassDecl {
+		const name = this.expect(TType.NAME, "Expected class name.");
+		const classDecl = new AST.ClassDecl(name);
 
-		while (!this.match(TType.GREATER)) {
-			const name = this.expect(TType.NAME, "Expected type name.").raw;
-			const param = new Typing.PlaceHolderType(name);
-			param.unresolved = false;
-			types.push(param);
+		if (this.match(TType.LESS)) {
+			const superName = this.expect(TType.NAME, "Expected base class name after '<'.");
+			classDecl.superClass = new AST.Identifier(superName);
+		}
 
-			if (!this.match(TType.COMMA)) {
-				this.expect(TType.GREATER, "Expected '>' after type arguments.");
+		this.consume(TType.COLON); // optional ':'
+		this.expect(TType.INDENT, "Expected indented class body.");
+
+		while (!this.eof() && !this.match(TType.DEDENT)) {
+			this.classMember(classDecl);
+			if (this.panicMode) break;
+			this.consume(TType.SEMI_COLON);
+		}
+
+		this.currentBlockScope().bindTypeNode(classDecl.name, classDecl);
+		this.currentBlockScope().declarations.push(new ClassDeclaration(classDecl));
+		return classDecl;
+	}
+
+	// classMember -> 'static'? ( 'new' params body
+	//                          | ID params (':' type)? body
+	//                          | ID (':' type)? ('=' expr)? )
+	private classMember(classDecl: AST.ClassDecl) {
+		const isStatic = this.match(TType.STATIC);
+
+		if (this.check(TType.NEW)) {
+			const kw = this.next();
+			const ctor = this.funcExpr(kw);
+			// errors are reported after the body is parsed,
+			// since the constructor itself is well formed.
+			if (isStatic) this.error("A constructor cannot be static.", kw);
+			else if (classDecl.ctor) this.error("A class may only have one constructor.", kw);
+			else classDecl.ctor = ctor;
+			return;
+		}
+
+		const name = this.expect(TType.NAME, "Expected class member name.");
+		if (this.panicMode) return;
+
+		if (this.check(TType.L_PAREN)) {
+			classDecl.methods.push({ name, lambda: this.funcExpr(name), isStatic });
+			return;
+		}
+
+		let type = new AST.TypeInfo(name, Typing.t_infer);
+		let value = null;
+
+		if (this.match(TType.COLON) && !this.check(TType.EQ)) type = parseType(this);
+		if (this.match(TType.EQ)) value = this.expr();
+
+		classDecl.properties.push({ name, typeInfo: type, value, isStatic });
+	}
+
+	// enumDecl -> 'enum' ID ':'? <INDENT> (ID ('=' (NUMBER | STRING))?)* <DEDENT>
+	private enumDecl(): AST.EnumDecl {
+		const name = this.expect(TType.NAME, "Expected enum name.");
+		const enumDecl = new AST.EnumDecl(name);
+
+		this.consume(TType.COLON); // optional ':'
+		this.expect(TType.INDENT, "Expected indented enum body.");
+
+		// value of the next member if it isn't initialized.
+		let nextValue: number | null = 0;
+
+		while (!this.eof() && !this.match(TType.DEDENT)) {
+			const member = this.expect(TType.NAME, "Expected enum member name.");
+			if (this.panicMode) break;
+
+			let value: number | string;
+			if (this.match(TType.EQ)) {
+				value = this.enumValue();
+			} else if (nextValue != null) {
+				value = nextValue;
+			} else {
+				this.error(`Enum member '${member.raw}' must be initialized.`, member);
 				break;
 			}
+
+			nextValue = typeof value == "number" ? value + 1 : null;
+			enumDecl.members.push({ name: member, value });
+			this.consume(TType.COMMA, TType.SEMI_COLON);
 		}
-		return types;
+
+		this.currentBlockScope().bindTypeNode(enumDecl.name, enumDecl);
+		this.currentBlockScope().declarations.push(new EnumDeclaration(enumDecl));
+		return enumDecl;
+	}
+
+	private enumValue(): number | string {
+		const isNegative = this.match(TType.MINUS);
+		if (this.match(TType.LITERAL_NUM)) {
+			const value = this.prev().value as number;
+			return isNegative ? -value : value;
+		}
+
+		if (!isNegative && this.match(TType.LITERAL_STR)) return this.prev().value as string;
+
+		this.error("Enum members can only be initialized with number or string literals.", this.peek());
+		return 0;
 	}
 
 	// typealias -> KW_TYPE NAME '=' type
@@ -585,7 +1080,7 @@ export default class AveParser extends Parser {
 		let typeParams: Typing.Type[] = [];
 
 		if (this.match(TType.LESS)) {
-			typeParams = this.parseGenericParams();
+			typeParams = parseTypeParams(this);
 			isGeneric = true;
 		}
 
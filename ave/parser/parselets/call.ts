@@ -5,14 +5,26 @@ import { InfixParseFn } from './parsefn';
 import TokenType = require('../../lexer/tokentype');
 import Precedence = require('../precedence');
 
-export const callParser: InfixParseFn = (parser, left, op): AST.CallExpr => {
-  const call = new AST.CallExpr(left, op);
+/**
+ * Parses a comma separated argument list.
+ * Assumes the opening '(' has been consumed, and
+ * consumes the closing ')'.
+ * @param parser The Parser to draw tokens from.
+ */
+export function parseArguments(parser: Parser): AST.Expression[] {
+  const args: AST.Expression[] = [];
   while (!parser.match(TokenType.R_PAREN)) {
-    call.args.push(parser.parseExpression(Precedence.ASSIGN));
+    args.push(parser.parseExpression(Precedence.ASSIGN));
     if (!parser.match(TokenType.COMMA)) {
       parser.expect(TokenType.R_PAREN, "Expected ')' after argument list.");
       break;
     }
   }
+  return args;
+}
+
+export const callParser: InfixParseFn = (parser, left, op): AST.CallExpr => {
+  const call = new AST.CallExpr(left, op);
+  call.args.push(...parseArguments(parser));
   return call;
 };
@@ -0,0 +1,21 @@
+import * as AST from "../ast/ast";
+import { InfixParseFn } from "./parsefn";
+import parseType from "./type-parser";
+
+/**
+ * Parses a type cast like `value as num`.
+ * The right side of `as` is a type, not an expression.
+ */
+export const CastParser: InfixParseFn = (parser, left, as) => {
+	const typeInfo = parseType(parser);
+	return new AST.CastExpr(left, as, typeInfo);
+};
+
+/**
+ * Parses a type test like `value is num`.
+ * Like casts, the right side of `is` is a type.
+ */
+export const TypeTestParser: InfixParseFn = (parser, left, is) => {
+	const typeInfo = parseType(parser);
+	return new AST.TypeTestExpr(left, is, typeInfo);
+};
@@ -18,7 +18,7 @@ const MemberExprParser: InfixParseFn = (
     parser.expect(TokenType.R_SQ_BRACE, "Expected ']'.");
     indexed = true;
   } else {
-    const nameToken = parser.expect(TokenType.NAME, "Expected property name.");
+    const nameToken = parser.expectPropertyName("Expected property name.");
     property = new AST.Identifier(nameToken);
   }
 
@@ -0,0 +1,28 @@
+import * as AST from "../ast/ast";
+import { PrefixParseFn } from "./parsefn";
+import { parseArguments } from "./call";
+import { parseTypeArguments } from "./type-parser";
+import TokenType = require("../../lexer/tokentype");
+import Precedence = require("../precedence");
+
+/**
+ * Parses a 'new' expression like `new Foo(a, b)`, or `new Map<str, num>()`.
+ * The argument list is optional, `new Foo` is the same as `new Foo()`.
+ */
+export const NewParser: PrefixParseFn = (parser, kw) => {
+	// the callee is parsed with a higher precedence than a call,
+	// so that the argument list isn't parsed as a call expression.
+	const callee = parser.parseExpression(Precedence.CALL + 1);
+	const newExpr = new AST.NewExpr(kw, callee);
+
+	if (parser.check(TokenType.LESS) && parser.isTypeArgumentList()) {
+		parser.next();
+		newExpr.typeArgs = parseTypeArguments(parser);
+	}
+
+	if (parser.match(TokenType.L_PAREN)) {
+		newExpr.args.push(...parseArguments(parser));
+	}
+
+	return newExpr;
+};
@@ -23,6 +23,15 @@ export const ObjectParser: PrefixParseFn = (parser, indentOrBrace: Token) => {
       : TokenType.R_BRACE;
 
   while (!parser.eof() && !parser.match(endToken)) {
+    // spread properties "...other"
+    if (parser.match(TokenType.SPREAD)) {
+      const spread = parser.prev();
+      const value = parser.parseExpression(Precedence.NONE);
+      obj.kvPairs.set(spread, new AST.SpreadExpr(spread, value));
+      parser.consume(TokenType.COMMA);
+      continue;
+    }
+
     // TODO: allow expressions as key types.
     const key = parser.expect(TokenType.NAME, "Expected object key name.");
     parser.expect(TokenType.COLON, "Expected ':' after object key.");
@@ -0,0 +1,26 @@
+import * as AST from "../ast/ast";
+import { InfixParseFn } from "./parsefn";
+import { parseArguments } from "./call";
+import TokenType = require("../../lexer/tokentype");
+import Precedence = require("../precedence");
+
+/**
+ * Parses the part of an optional chain that follows a `?.`,
+ * which is one of `a?.b`, `a?.[b]` or `a?.(b)`.
+ */
+export const OptionalChainParser: InfixParseFn = (parser, left, questionDot) => {
+	if (parser.match(TokenType.L_PAREN)) {
+		const call = new AST.CallExpr(left, parser.prev(), true);
+		call.args.push(...parseArguments(parser));
+		return call;
+	}
+
+	if (parser.match(TokenType.L_SQ_BRACE)) {
+		const index = parser.parseExpression(Precedence.NONE);
+		parser.expect(TokenType.R_SQ_BRACE, "Expected ']'.");
+		return new AST.MemberAccessExpr(questionDot, left, index, true, true);
+	}
+
+	const name = parser.expectPropertyName("Expected property name after '?.'.");
+	return new AST.MemberAccessExpr(questionDot, left, new AST.Identifier(name), false, true);
+};
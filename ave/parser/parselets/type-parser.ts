@@ -1,12 +1,17 @@
 import TT = require("../../lexer/tokentype");
 import FunctionType, { ParameterTypeInfo } from "../../type/function-type";
-import GenericType, { GenericInstance, t_Array } from "../../type/generic-type";
+import GenericType, {
+	GenericFunctionType,
+	GenericInstance,
+	t_Array,
+} from "../../type/generic-type";
 import * as Typing from "../../type/types";
 import Parser from "../parser";
 import { TypeInfo } from "../ast/ast";
 import Token from "../../lexer/token";
 import UnionType from "../../type/union-type";
 import ObjectType from "../../type/object-type";
+import TupleType from "../../type/tuple-type";
 
 /**
  * Parses a valid Ave Data type, and returns the TypeInfo AST Node
@@ -56,15 +61,49 @@ function parseNonUnionType(parser: Parser): TypeInfo {
 		return new TypeInfo(parser.prev(), parseFunctionType(parser));
 	}
 
+	// generic function types, like `<T>(value: T) -> T`.
+	if (parser.match(TT.LESS)) {
+		const typeParams = parseTypeParams(parser);
+		const token = parser.expect(TT.L_PAREN, "Expected '(' after type parameters.");
+		const fn = parseFunctionType(parser);
+		return new TypeInfo(token, new GenericFunctionType(fn.params, fn.returnType, typeParams));
+	}
+
+	// constructor types, like `new (name: str) -> Person` or `new <T>() -> Box<T>`.
+	if (parser.match(TT.NEW)) {
+		const kw = parser.prev();
+		if (!parser.check(TT.L_PAREN) && !parser.check(TT.LESS)) {
+			parser.error("Expected '(' or '<' after 'new'.", parser.peek());
+			return new TypeInfo(kw, Typing.t_error);
+		}
+
+		const fn = parseNonUnionType(parser).type as FunctionType;
+		fn.isConstructor = true;
+		return new TypeInfo(kw, fn);
+	}
+
 	if (parser.match(TT.L_BRACE)) {
 		const type = parseObjectType(parser);
 		return new TypeInfo(parser.prev(), type);
 	}
 
+	if (parser.match(TT.L_SQ_BRACE)) {
+		const token = parser.prev();
+		const tuple = parseTupleType(parser);
+
+		// arrays of tuples, like `[str, num][]`.
+		if (parser.check(TT.L_SQ_BRACE) && parser.checkNext(TT.R_SQ_BRACE)) {
+			parser.next();
+			parser.next();
+			return new TypeInfo(token, t_Array.instantiate([tuple]));
+		}
+		return new TypeInfo(token, tuple);
+	}
+
 	return new TypeInfo(parser.peek(), Typing.t_any);
 }
 
-function parseFunctionType(parser: Parser): Typing.Type {
+function parseFunctionType(parser: Parser): FunctionType {
 	let params = parseParams(parser);
 	let returnType = Typing.t_any;
 
@@ -81,45 +120,109 @@ function parseParams(parser: Parser): ParameterTypeInfo[] {
 	while (!parser.match(TT.R_PAREN)) {
 		params.push(parseParam(parser));
 
-		if (!parser.check(TT.R_PAREN)) {
-			parser.expect(TT.COMMA, "Expected ','.");
+		if (!parser.match(TT.COMMA)) {
+			parser.expect(TT.R_PAREN, "Expected ','.");
+			break;
 		}
 	}
 	return params;
 }
 
 function parseParam(parser: Parser): ParameterTypeInfo {
+	const isRest = parser.match(TT.SPREAD);
 	let name = parser.expect(TT.NAME, "Expected paramter name.").raw;
-	let type = Typing.t_any;
+	// parameters marked with a '?' can be left out in calls.
+	const isOptional = !isRest && parser.match(TT.QUESTION);
+	let type = isRest ? t_Array.instantiate([Typing.t_any]) : Typing.t_any;
 
 	if (parser.match(TT.COLON)) type = parseType(parser).type;
 
 	return {
 		name,
 		type,
-		required: true,
+		required: !isRest && !isOptional,
+		isRest,
 	};
 }
 
-function parseGenericInstance(parser: Parser, name: Token) {
-	let typeArgs: Typing.Type[] = [];
+/**
+ * Parses generic type paramters like <T, U, K>. A parameter may have
+ * a constraint and a default type, like `<T: Named = Person>`.
+ * Assumes the '<' token has been eaten upon call.
+ * @param {Parser} parser The parser to draw tokens from.
+ * @returns an array of types.
+ */
+export function parseTypeParams(parser: Parser): Typing.PlaceHolderType[] {
+	const types: Typing.PlaceHolderType[] = [];
+
+	while (!parser.match(TT.GREATER)) {
+		const name = parser.expect(TT.NAME, "Expected type name.");
+		const param = new Typing.PlaceHolderType(name.raw);
+		param.unresolved = false;
+		if (parser.match(TT.COLON)) param.constraint = parseType(parser).type;
+		if (parser.match(TT.EQ)) {
+			param.defaultType = parseType(parser).type;
+		} else if (types.some(t => t.defaultType)) {
+			parser.error("Required type parameters may not follow optional type parameters.", name);
+		}
+		types.push(param);
+
+		if (!parser.match(TT.COMMA)) {
+			parser.expect(TT.GREATER, "Expected '>' after type arguments.");
+			break;
+		}
+	}
+	return types;
+}
+
+/**
+ * Parses a list of type arguments like `<num, str>`.
+ * Assumes the '<' token has been eaten upon call.
+ * @param {Parser} parser The parser to draw tokens from.
+ */
+export function parseTypeArguments(parser: Parser): TypeInfo[] {
+	const typeArgs: TypeInfo[] = [];
 	while (!parser.match(TT.GREATER)) {
-		typeArgs.push(parseType(parser).type);
+		typeArgs.push(parseType(parser));
 
 		if (!parser.match(TT.COMMA)) {
 			parser.expect(TT.GREATER, "Expected ','");
 			break;
 		}
 	}
+	return typeArgs;
+}
 
+function parseGenericInstance(parser: Parser, name: Token) {
+	const typeArgs = parseTypeArguments(parser).map(t => t.type);
 	const genType = new GenericInstance(name.raw, typeArgs);
+
+	// arrays of generic instances, like `Promise<T>[]`.
+	if (parser.check(TT.L_SQ_BRACE) && parser.checkNext(TT.R_SQ_BRACE)) {
+		parser.next();
+		parser.next();
+		return new TypeInfo(name, t_Array.instantiate([genType]));
+	}
 	return new TypeInfo(name, genType);
 }
 
+function parseTupleType(parser: Parser): TupleType {
+	const elementTypes: Typing.Type[] = [];
+	while (!parser.match(TT.R_SQ_BRACE)) {
+		elementTypes.push(parseType(parser).type);
+
+		if (!parser.match(TT.COMMA)) {
+			parser.expect(TT.R_SQ_BRACE, "Expected ']' after tuple element types.");
+			break;
+		}
+	}
+	return new TupleType(elementTypes);
+}
+
 function parseObjectType(parser: Parser): ObjectType {
 	const objectType = new ObjectType();
 	while (!parser.match(TT.R_BRACE) && !parser.eof()) {
-		const name = parser.expect(TT.NAME, "Expected property name.").raw;
+		const name = parser.expectPropertyName("Expected property name.").raw;
 		parser.expect(TT.COLON, "Expected ':' after field name.");
 		const type = parseType(parser).type;
 		parser.consume(TT.COMMA, TT.SEMI_COLON);
@@ -9,6 +9,10 @@ import PostfixUnaryParselet from "./parselets/postunary";
 import { AveError, errorFromToken, ErrorReportFn } from "../error/error";
 import { throwError } from "../error/reporter";
 import { ScannedData } from "../lexer/lexer";
+import keywords from "../lexer/keywords";
+
+// tokens that can appear in type arguments, besides type names.
+const typeArgumentTokens = new Set([TType.COMMA, TType.PIPE, TType.L_SQ_BRACE, TType.R_SQ_BRACE]);
 
 /**
  * A wrapper around a syntax tree.
@@ -130,6 +134,36 @@ export default class Parser {
 		);
 	}
 
+	/**
+	 * Checks if the '<' token at `start` begins a list of type arguments
+	 * followed by a call, like `<num, str[]>(`. No tokens are consumed.
+	 * @param start {number} index of the '<' token, the next token by default.
+	 */
+	public isTypeArgumentList(start = this.current): boolean {
+		const current = this.current;
+		this.current = start + 1;
+
+		let depth = 1;
+		let isTypeArgs = false;
+		while (!this.eof()) {
+			const token = this.next();
+			if (token.type == TType.LESS) {
+				depth++;
+			} else if (token.type == TType.GREATER) {
+				depth--;
+				if (depth == 0) {
+					isTypeArgs = this.check(TType.L_PAREN);
+					break;
+				}
+			} else if (!this.isValidType(token) && !typeArgumentTokens.has(token.type)) {
+				break;
+			}
+		}
+
+		this.current = current;
+		return isTypeArgs;
+	}
+
 	public error(msg: string, token: Token) {
 		if (this.panicMode) return;
 
@@ -148,6 +182,17 @@ export default class Parser {
 		return this.prev();
 	}
 
+	// like `expect(NAME)`, but also accepts keywords, since
+	// names like `get` and `delete` are valid property names.
+	public expectPropertyName(errorMessage: string) {
+		if (keywords.has(this.peek().raw)) {
+			const token = this.next();
+			token.type = TType.NAME;
+			return token;
+		}
+		return this.expect(TType.NAME, errorMessage);
+	}
+
 	// keeps moving forward in the token stream
 	// until one of the given types is found or
 	// <EOF> is reached.
@@ -3,6 +3,7 @@ enum Precedence {
   ASSIGN, // = *= += -= /= %= or= and= ~= etc
 
   COND, // ... if ... else ...
+  NIL_COALESCE, // ??
 
   LOGIC_OR, // or
   LOGIC_AND, // and
@@ -12,7 +13,7 @@ enum Precedence {
   BIT_OR, // |
 
   EQUALITY, // == != is === !==
-  COMPARISON, // > < >= <= in instanceof
+  COMPARISON, // > < >= <= in instanceof as
   BIT_SHIFT, // << >> >>>
 
   ADD, // + -
@@ -3,6 +3,18 @@ import AveParser from "../parser/aveparser";
 import Checker from "../checker/checker";
 import { ParsedData } from "../parser/parser";
 import Binder from "../checker/type-binder";
+import CompilationContext from "../compiler/context";
+import DeclarationGenerator from "../compiler/codegen/dts-gen";
+import JSGenerator from "../compiler/codegen/gen";
+import { encodeVLQ } from "../compiler/codegen/sourcemap";
+import { CompilerOptions, defaultOptions, parseConfig, readConfigFile } from "../compiler/options";
+import { AveError } from "../error/error";
+import * as AST from "../parser/ast/ast";
+import * as Typing from "../type/types";
+import { matchesGlob } from "../util/util";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 
 declare global {
 	namespace jest {
@@ -160,8 +172,685 @@ for i = 0, 10
   k := i + 1
 `;
 
+loop_tests[2] = `
+names := ["a", "b"]
+for name of names
+  length: num = name
+`;
+
+loop_tests[3] = `
+struct Point
+  x: num
+
+points: Point[] = [{ x: 1 }]
+for p of points
+  p.y = 2
+`;
+
 test("type checking loops", () => {
 	expect(loop_tests[1]).toHaveTypeError("Cannot assign type 'str' to type 'num'.");
+	expect(loop_tests[2]).toHaveTypeError("cannot intialize 'length' of type 'num' with type 'str'");
+	expect(loop_tests[3]).toHaveTypeError("property 'y' does not exist on type Point");
+	expect("for x of 10\n  x = 1").toHaveTypeError("Type 'num' is not iterable.");
+	expect("for k in { a: 1 }\n  k = 1").toHaveTypeError("Cannot assign type 'num' to type 'str'.");
+	expect("for k in true\n  k = 'a'").toHaveTypeError(
+		"The right side of a 'for..in' loop must be an object, but found type 'bool'."
+	);
+});
+
+// string interpolation
+
+test("Type checking interpolated strings.", () => {
+	expect(`n := 1\nx: num = "n is {n}"`).toHaveTypeError(
+		"cannot intialize 'x' of type 'num' with type 'str'"
+	);
+	expect(`x := "{y}"`).toHaveTypeError("Cannot find name y.");
+	expect(`func f()\n  return\nx := "{f()}"`).toHaveTypeError(
+		"An expression of type 'undefined' cannot be interpolated into a string."
+	);
+});
+
+// type casts
+
+const cast_tests: string[] = [];
+
+cast_tests[0] = `
+class Animal
+  name: str = "cat"
+class Dog < Animal
+  bark(): str
+    return "woof"
+
+a: Animal = new Dog()
+b: str = (a as Dog).bark()
+c: num = (a as Dog).bark()
+`;
+
+test("Type checking casts.", () => {
+	expect(cast_tests[0]).toHaveTypeError("cannot intialize 'c' of type 'num' with type 'str'");
+	expect("x := 1 as str").toHaveTypeError("Cannot cast type 'num' to type 'str'.");
+	expect("x: num | str = 1\ny: bool = x as bool").toHaveTypeError(
+		"Cannot cast type 'num|str' to type 'bool'."
+	);
+	expect("x: any = 1\ny: str = x as num").toHaveTypeError(
+		"cannot intialize 'y' of type 'str' with type 'num'"
+	);
+});
+
+// optional chaining and nil coalescing
+
+const optional_tests: string[] = [];
+
+optional_tests[0] = `
+struct Node
+  value: num
+  next: Node | nil
+
+func nextValue(node: Node): num
+  return node.next?.value
+`;
+
+optional_tests[1] = `
+struct Node
+  value: num
+  next: Node | nil
+
+func thirdValue(node: Node | nil): num
+  return node?.next.value ?? 0
+`;
+
+test("Type checking optional chains.", () => {
+	expect(optional_tests[0]).toHaveTypeError(
+		"Incorrect return type 'num|nil'. Expected value of type 'num'"
+	);
+	expect(optional_tests[1]).toHaveTypeError("property 'value' does not exist on type Node|nil");
+	expect("x: num | nil = nil\ny: str = x ?? 1").toHaveTypeError(
+		"cannot intialize 'y' of type 'str' with type 'num'"
+	);
+	expect("x: { a: num } | nil = nil\nx?.a = 1").toHaveTypeError(
+		"Cannot assign to an optional chain."
+	);
+	expect("xs := [1, 2]\ny := xs['a']").toHaveTypeError(
+		"Cannot index type 'Array<num>' with type 'str'."
+	);
+});
+
+// spread and rest
+
+const spread_tests: string[] = [];
+
+spread_tests[0] = `
+func sum(...nums: num[]): num
+  total := 0
+  for n of nums
+    total = total + n
+  return total
+
+sum(1, 2, "3")
+`;
+
+spread_tests[1] = `
+base := { x: 1, y: 2 }
+point := { ...base, y: "two" }
+y: num = point.y
+`;
+
+test("Type checking spread and rest.", () => {
+	expect(spread_tests[0]).toHaveTypeError(
+		"cannot assign argument of type 'str' to rest parameter of type 'Array<num>'."
+	);
+	expect(spread_tests[1]).toHaveTypeError("cannot intialize 'y' of type 'num' with type 'str'");
+	expect("func f(a: num)\n  return\nxs := [1]\nf(...xs)").toHaveTypeError(
+		"A spread argument can only be passed to a rest parameter."
+	);
+	expect("xs := [1]\nys: str[] = [...xs]").toHaveTypeError(
+		"cannot intialize 'ys' of type 'Array<str>' with type 'Array<num>'"
+	);
+	expect("xs := ...[1]").toHaveTypeError(
+		"Spread syntax can only be used in calls, arrays and objects."
+	);
+	expect("func f(...a: num)\n  return").toHaveTypeError(
+		"A rest parameter must be of an array type."
+	);
+});
+
+// tuples
+
+const tuple_tests: string[] = [];
+
+tuple_tests[0] = `
+func divmod(a: num, b: num): [num, num]
+  return [a // b, a - b * (a // b)]
+
+result := divmod(7, 2)
+quotient: str = result[0]
+`;
+
+test("Type checking tuples.", () => {
+	expect(tuple_tests[0]).toHaveTypeError(
+		"cannot intialize 'quotient' of type 'str' with type 'num'"
+	);
+	expect('t: [num, str] = [1, "a", 2]').toHaveTypeError(
+		"Tuple type '[num, str]' expects 2 elements, but got 3."
+	);
+	expect('t: [num, str] = ["a", 1]').toHaveTypeError(
+		"cannot intialize 't' of type '[num, str]' with type '[str, num]'"
+	);
+	expect('t: [num, str] = [1, "a"]\nx := t[2]').toHaveTypeError(
+		"Tuple type '[num, str]' of length 2 has no element at index 2."
+	);
+	expect('t: [num, str] = [1, "a"]\nu: [num] = t').toHaveTypeError(
+		"cannot intialize 'u' of type '[num]' with type '[num, str]'"
+	);
+});
+
+// imports and exports
+
+// type checks a program whose first statement imports
+// from a module with the given exports.
+function checkWithImports(src: string, exports: AST.ModuleExport[]) {
+	const parseTree = parse(src);
+	const decl = parseTree.ast.body.statements[0] as AST.ImportDecl;
+	decl.exports = new Map(exports.map(e => [e.name, e]));
+	return typecheck(parseTree);
+}
+
+test("Type checking imports and exports.", () => {
+	expect('import { a } from "./nowhere"').toHaveTypeError("Cannot find module './nowhere'.");
+
+	const exports = [{ name: "count", type: Typing.t_number, boundType: null }];
+
+	let checked = checkWithImports('import { count, total } from "./stats"', exports);
+	expect(checked.errors[0].message).toBe("Module './stats' has no exported member 'total'.");
+
+	checked = checkWithImports('import { count } from "./stats"\ns: str = count', exports);
+	expect(checked.errors[0].message).toBe("cannot intialize 's' of type 'str' with type 'num'");
+
+	checked = checkWithImports('import { count } from "./stats"\ncount = 2', exports);
+	expect(checked.errors[0].message).toBe("Invalid assignment to constant 'count'");
+
+	const errors: AveError[] = [];
+	const context = new CompilationContext("test/compiler-test/test_project/src", {}, err => {
+		errors.push(err);
+	});
+
+	const main = context.compile("test/compiler-test/test_project/src/index.ave");
+	expect(errors).toEqual([]);
+	expect(main.hasError).toBe(false);
+	expect(main.code).toContain('import { origin, move } from "./point.js";');
+	// names from '.decl.ave' files are visible everywhere, but not emitted.
+	expect(main.code).toContain("console.log(total, p);");
+	expect(main.code).not.toContain("parseFloat =");
+
+	const point = context.compile("test/compiler-test/test_project/src/point.ave");
+	expect(point.exports.get("Point")?.type).toBe(null);
+	expect(point.code).toContain("export function move(p, dx, dy)");
+
+	// source code that isn't read from a file, like the standard input.
+	const piped = context.compile(
+		"test/compiler-test/test_project/src/<stdin>",
+		'import { origin } from "./point"\nconsole.log(origin.x)'
+	);
+	expect(errors).toEqual([]);
+	expect(piped.code).toContain("console.log(origin.x);");
+});
+
+// Typescript declaration files
+
+const colorTypes = `
+export interface Color { r: number; g: number; b: number; toHex(): string }
+export interface Named extends Color, Box<string> { name: string }
+interface Box<T> { value: T; map<U>(fn: (value: T) => U): Box<U> }
+export type Pair<A, B = string> = [A, B];
+export interface Options<T = string> { name: T; tags?: string[] }
+export interface Entry<K, V = K> { key: K; value: V }
+export interface NamedEntry extends Entry<string> { name: string }
+export declare function pair(a: number): Pair<number>;
+export declare function parse(text: string): Color | null;
+export declare function wrap<T>(value: T): Box<T>;
+declare class Painter { paint(): void }
+`;
+
+function compileWithPackage(source: string) {
+	const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ave-"));
+	const packageDir = path.join(projectDir, "node_modules", "colors");
+	fs.mkdirSync(path.join(packageDir, "lib"), { recursive: true });
+	fs.writeFileSync(path.join(packageDir, "package.json"), '{ "types": "lib/index.d.ts" }');
+	fs.writeFileSync(path.join(packageDir, "lib", "index.d.ts"), colorTypes);
+	fs.mkdirSync(path.join(projectDir, "src"));
+	fs.writeFileSync(path.join(projectDir, "src", "main.ave"), source);
+
+	const errors: AveError[] = [];
+	const context = new CompilationContext(path.join(projectDir, "src"), {}, err => {
+		errors.push(err);
+	});
+
+	const main = context.compile(path.join(projectDir, "src", "main.ave"));
+	fs.rmdirSync(projectDir, { recursive: true });
+	return { main, errors };
+}
+
+test("Type checking imports from declaration files.", () => {
+	const errors: AveError[] = [];
+	const context = new CompilationContext("test/compiler-test/test_project/src", {}, err => {
+		errors.push(err);
+	});
+
+	const palette = context.compile("test/compiler-test/test_project/src/palette.ave");
+	expect(errors).toEqual([]);
+	expect(palette.code).toContain('import { black, mix } from "./color.js";');
+
+	let checked = compileWithPackage(
+		'import { Named, pair, parse, wrap } from "colors"\n' +
+			'n := parse("#000") as Named\n' +
+			"s: str = n.name + n.value + n.toHex()\n" +
+			"p := pair(1)\n" +
+			"first: num = p[0]\n" +
+			"wrapped: num = wrap(1).value"
+	);
+	expect(checked.errors).toEqual([]);
+	expect(checked.main.code).toContain('import { pair, parse, wrap } from "colors";');
+
+	checked = compileWithPackage(
+		'import { Named } from "colors"\nfunc f(n: Named): num\n  return n.value'
+	);
+	expect(checked.errors[0].message).toBe(
+		"Incorrect return type 'str'. Expected value of type 'num'"
+	);
+
+	// optional members can be left out.
+	checked = compileWithPackage(
+		'import { Options } from "colors"\n' +
+			'options: Options = { name: "ave" }\n' +
+			"tags: str[] | undefined = options.tags"
+	);
+	expect(checked.errors).toEqual([]);
+
+	checked = compileWithPackage(
+		'import { Options } from "colors"\noptions: Options = { tags: ["ave"] }'
+	);
+	expect(checked.errors[0].message).toBe(
+		"cannot intialize 'options' of type 'Options<str>' with type '{tags: Array<str>}'"
+	);
+
+	// type parameters with defaults can be left out.
+	checked = compileWithPackage(
+		'import { Options, Entry, NamedEntry } from "colors"\n' +
+			'options: Options = { name: "ave" }\n' +
+			"ids: Options<num> = { name: 1 }\n" +
+			'entry: Entry<str> = { key: "a", value: "b" }\n' +
+			'named: NamedEntry = { key: "a", value: "b", name: "c" }'
+	);
+	expect(checked.errors).toEqual([]);
+
+	checked = compileWithPackage('import { Options } from "colors"\noptions: Options = { name: 1 }');
+	expect(checked.errors[0].message).toBe(
+		"cannot intialize 'options' of type 'Options<str>' with type '{name: num}'"
+	);
+
+	checked = compileWithPackage('import { Painter } from "colors"');
+	expect(checked.errors[0].message).toBe("Module 'colors' has no exported member 'Painter'.");
+
+	checked = compileWithPackage('import { Color } from "shapes"');
+	expect(checked.errors[0].message).toBe("Cannot find module 'shapes'.");
+});
+
+// declaration emit
+
+function declarationsOf(src: string) {
+	const checked = typecheck(parse(src));
+	expect(checked.errors).toEqual([]);
+	return new DeclarationGenerator(checked.ast).generateDeclarations();
+}
+
+const dts_tests: string[] = [];
+
+dts_tests[0] = `
+struct Node<T>
+  value: T
+  next: Node<T> | nil
+
+type Id = num | str
+export type Pair<A, B> = [A, B]
+
+export let ids: Id[] = []
+export const head: Node<bool> = { value: true, next: nil }
+
+export func find(xs: str[], start: num = 0, ...rest: num[]): str | undefined
+  return xs[start]
+`;
+
+dts_tests[1] = `
+export enum Dir
+  Up
+  Down = "down"
+
+export class Animal
+  name: str
+  static count = 0
+
+  new(name: str)
+    @name = name
+
+  speak(loud: bool): str
+    return @name
+
+export class Dog < Animal
+  static create(): Dog
+    return new Dog("rex")
+`;
+
+dts_tests[2] = `
+struct Parser
+  new (source: str) -> Parser
+  parse: () -> num
+  parse: (radix: num) -> num
+`;
+
+test("Emitting Typescript declarations.", () => {
+	expect(declarationsOf(dts_tests[0])).toBe(
+		"interface Node<T> {\n    value: T;\n    next: Node<T> | null;\n}\n" +
+			"type Id = number | string;\n" +
+			"export type Pair<A, B> = [A, B];\n" +
+			"export declare let ids: Id[];\n" +
+			"export declare const head: Node<boolean>;\n" +
+			"export declare function find(xs: string[], start?: number, ...rest: number[]): string | undefined;\n" +
+			"export {};\n"
+	);
+
+	expect(declarationsOf(dts_tests[1])).toBe(
+		'export declare enum Dir {\n    Up = 0,\n    Down = "down",\n}\n' +
+			"export declare class Animal {\n" +
+			"    constructor(name: string);\n" +
+			"    name: string;\n" +
+			"    static count: number;\n" +
+			"    speak(loud: boolean): string;\n" +
+			"}\n" +
+			"export declare class Dog extends Animal {\n    static create(): Dog;\n}\n"
+	);
+
+	expect(declarationsOf(dts_tests[2])).toBe(
+		"interface Parser {\n" +
+			"    new (source: string): Parser;\n" +
+			"    parse: (() => number) & ((radix: number) => number);\n" +
+			"}\n" +
+			"export {};\n"
+	);
+
+	expect(declarationsOf('x := "not exported"')).toBe("export {};\n");
+
+	const context = new CompilationContext("test/compiler-test/test_project/src", {
+		declaration: true,
+	});
+	const point = context.compile("test/compiler-test/test_project/src/point.ave");
+	expect(point.declarations).toContain('import { add } from "./math/add.js";');
+	expect(point.declarations).toContain(
+		"export declare function move(p: Point, dx: number, dy: number): Point;"
+	);
+
+	// declarations are only written when they are enabled.
+	const withoutDeclarations = new CompilationContext("test/compiler-test/test_project/src");
+	expect(
+		withoutDeclarations.compile("test/compiler-test/test_project/src/point.ave").declarations
+	).toBe("");
+});
+
+// source maps
+
+test("Generating source maps.", () => {
+	expect([0, 1, -1, 15, 16, -16, 123].map(encodeVLQ)).toEqual([
+		"A",
+		"C",
+		"D",
+		"e",
+		"gB",
+		"hB",
+		"2H",
+	]);
+
+	const src = "func double(n: num): num\n  return n * 2\n\nx := double(4)\n";
+	const checked = typecheck(parse(src));
+	const { code, sourceMap } = new JSGenerator(checked.ast).generateJSWithSourceMap(
+		"double.js",
+		src
+	);
+
+	// the markers used to track positions are removed from the code.
+	expect(code).toBe(new JSGenerator(checked.ast).generateJS());
+
+	const map = JSON.parse(sourceMap.toJSON("../src/double.ave"));
+	expect(map).toMatchObject({
+		version: 3,
+		file: "double.js",
+		sources: ["../src/double.ave"],
+		sourcesContent: [src],
+	});
+	// every statement and operand is mapped to it's source position,
+	// eg - 'function double' to 'double(n', and 'let x' to 'x :='.
+	expect(map.mappings).toBe(";AAAK;IACH,OAAO,IAAI;;;;AAEb,QAAK,OAAO");
+
+	const context = new CompilationContext("test/compiler-test/test_project/src", {
+		sourceMap: true,
+	});
+	const point = context.compile("test/compiler-test/test_project/src/point.ave");
+	expect(point.code).toContain("//# sourceMappingURL=point.js.map\n");
+	// the export keyword goes before the declaration, not its position marker.
+	expect(point.code).toContain("export function move(p, dx, dy)");
+	expect(point.sourceMap?.file).toBe("point.js");
+});
+
+test("Recompiling changed modules.", () => {
+	const root = "test/compiler-test/test_project/src";
+	const context = new CompilationContext(root, {}, () => {});
+	const index = context.compile(`${root}/index.ave`);
+
+	// the files importing a changed file are compiled again.
+	const removed = context.invalidate(`${root}/point.ave`);
+	expect(removed).toEqual([path.resolve(`${root}/point.ave`), path.resolve(`${root}/index.ave`)]);
+	expect(context.invalidate(`${root}/point.ave`)).toEqual([]);
+
+	const recompiled = context.compile(`${root}/index.ave`);
+	expect(recompiled).not.toBe(index);
+	expect(recompiled.code).toBe(index.code);
+
+	// every module depends on the declaration files.
+	expect(context.invalidate(`${root}/globals.decl.ave`).length).toBe(4);
+});
+
+test("Declaration files in packages, hidden and output directories are not loaded.", () => {
+	const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ave-"));
+	for (const dir of ["lib", "node_modules/pkg", ".cache", "out"]) {
+		fs.mkdirSync(path.join(projectDir, dir), { recursive: true });
+	}
+	fs.writeFileSync(path.join(projectDir, "lib", "env.decl.ave"), "declare const limit: num\n");
+	for (const dir of ["node_modules/pkg", ".cache", "out"]) {
+		fs.writeFileSync(path.join(projectDir, dir, "broken.decl.ave"), "declare const : num\n");
+	}
+	fs.writeFileSync(path.join(projectDir, "main.ave"), "x: num = limit + 1\n");
+
+	const errors: AveError[] = [];
+	const context = new CompilationContext(projectDir, { out: path.join(projectDir, "out") }, err => {
+		errors.push(err);
+	});
+	context.compile(path.join(projectDir, "main.ave"));
+	fs.rmdirSync(projectDir, { recursive: true });
+	expect(errors).toEqual([]);
+});
+
+// compiler options
+
+function configErrors(source: string) {
+	const errors: AveError[] = [];
+	const options = parseConfig(source, "aveconfig.json", err => errors.push(err));
+	return { options, messages: errors.map(err => err.message), errors };
+}
+
+function checkWithOptions(src: string, options: Partial<CompilerOptions>) {
+	const parseTree = parse(src);
+	const opts = { ...defaultOptions, ...options };
+	new Binder(parseTree, () => {}, opts.lib).bind();
+	return new Checker(parseTree, () => {}, opts).check();
+}
+
+test("Reading compiler options.", () => {
+	let config = configErrors('{ "in": "src", "out": "dist", "strict": true }');
+	expect(config.messages).toEqual([]);
+	expect(config.options?.module).toBe("esm");
+	expect(config.options?.noImplicitAny).toBe(true);
+
+	config = configErrors('{ "strict": true, "noImplicitAny": false }');
+	expect(config.options?.noImplicitAny).toBe(false);
+
+	config = configErrors('{\n  "in": "src",\n  "modul": "esm",\n  "sourceMap": "yes"\n}');
+	expect(config.options).toBeNull();
+	expect(config.messages).toEqual([
+		"Unknown compiler option 'modul'.",
+		"Option 'sourceMap' must be a boolean, got 'string'.",
+	]);
+	// errors are reported at the key or the value in the config.
+	expect(config.errors[0]).toMatchObject({ line: 3, column: 3, startPos: 19, endPos: 26 });
+	expect(config.errors[1]).toMatchObject({ line: 4, column: 16 });
+
+	config = configErrors('{ "module": "amd", "include": "src", "lib": ["es5", "dom"] }');
+	expect(config.messages).toEqual([
+		"Option 'module' must be one of 'esm', 'commonjs'.",
+		"Option 'include' must be an array of strings, got 'string'.",
+		"Unknown library 'dom', expected one of 'console', 'es5', 'es2015.collection', 'es2015.promise'.",
+	]);
+
+	expect(configErrors('{ "in": "src", }').messages[0]).toMatch(/^Invalid JSON: /);
+	// the position of a JSON error is found whether Node reports
+	// it, or quotes the source around it.
+	expect(configErrors('{ "in": src }').errors[0]).toMatchObject({ startPos: 8 });
+	config = configErrors('{\n  "include": ["lib/**/*.ave"],\n  "out": dist\n}');
+	expect(config.errors[0]).toMatchObject({ line: 3, column: 10 });
+	expect(config.messages[0]).not.toMatch(/position|is not valid JSON/);
+	expect(configErrors("[]").messages).toEqual(["The config file must contain an object."]);
+
+	expect(matchesGlob("lib/math.ave", "**/*.ave")).toBe(true);
+	expect(matchesGlob("main.ave", "**/*.ave")).toBe(true);
+	expect(matchesGlob("lib/math.ave", "*.ave")).toBe(false);
+	expect(matchesGlob("tests/unit/math.ave", "tests")).toBe(true);
+	expect(matchesGlob("lib/math.ave", "./lib/m?th.ave")).toBe(true);
+
+	// only the selected libraries are declared.
+	const src = "console.log(Math.PI)";
+	expect(checkWithOptions(src, {}).hasError).toBe(false);
+	expect(checkWithOptions(src, { lib: ["es5"] }).errors[0].message).toBe(
+		"Cannot find name console."
+	);
+	expect(checkWithOptions("m: Map<str, num>", { lib: ["console"] }).ast.hasError).toBe(true);
+
+	const untyped = "func show(x, y: num = 2)\n  console.log(x, y)";
+	expect(checkWithOptions(untyped, {}).hasError).toBe(false);
+	expect(checkWithOptions(untyped, { noImplicitAny: true }).errors[0].message).toBe(
+		"Parameter 'x' implicitly has an 'any' type."
+	);
+
+	// directories are resolved relative to the config file, unless absolute.
+	const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ave-"));
+	const outDir = path.join(os.tmpdir(), "ave-out");
+	const configPath = path.join(projectDir, "aveconfig.json");
+	fs.writeFileSync(configPath, JSON.stringify({ in: "src", out: outDir }));
+	const options = readConfigFile(configPath);
+	fs.rmdirSync(projectDir, { recursive: true });
+	expect(options?.in).toBe(path.join(projectDir, "src"));
+	expect(options?.out).toBe(outDir);
+});
+
+// ambient declarations
+
+const declare_tests: string[] = [];
+
+declare_tests[0] = `
+name: str = prompt("name?")
+declare func prompt(message: str): str
+declare func alert(message: str)
+result: str = alert(name)
+`;
+
+test("Type checking ambient declarations.", () => {
+	expect(declare_tests[0]).toHaveTypeError(
+		"cannot intialize 'result' of type 'str' with type 'void'"
+	);
+	expect("declare const version: str\nversion = 1").toHaveTypeError(
+		"Invalid assignment to constant 'version'"
+	);
+	expect("declare let count: num\ncount = count + 1").toBeCorrect();
+});
+
+// prelude
+
+const prelude_tests: string[] = [];
+
+prelude_tests[0] = `
+scores := [1, 2, 3]
+scores.push(4)
+count: num = scores.length
+top: num | undefined = scores.find((s: num) -> s > 2)
+name: str = "ave".toUpperCase()
+half: num = Math.floor(count / 2)
+console.log(name, top, half, JSON.stringify(scores))
+`;
+
+prelude_tests[1] = `
+ages := new Map() as Map<str, num>
+ages.set("ave", 1)
+age: num | undefined = ages.get("ave")
+`;
+
+prelude_tests[2] = `
+ages := new Map<str, num>([["ave", 1]])
+names := new Set<str>()
+empty: Map<str, num> = new Map()
+age: num | undefined = empty.get("ave")
+done := new Promise<num>((resolve: (value: num) -> void, reject: (reason: any) -> void) -> resolve(1))
+`;
+
+prelude_tests[3] = `
+words := ["ave", "js"]
+letters: num = words.reduce((total: num, word: str) -> total + word.length, 0)
+sentence: str = words.reduce((a: str, b: str) -> a + " " + b)
+reversed: str = words.reduceRight((a: str, b: str) -> a + b)
+lengths: num[] = words.flatMap((word: str) -> [word.length])
+first: num = words.keys().next().value
+entry: [num, str] = words.entries().next().value
+one: Promise<num> = Promise.resolve(1)
+all: Promise<num[]> = Promise.all([one, Promise.resolve(2)])
+fastest: Promise<num> = Promise.race([one])
+failed := Promise.reject("failed")
+`;
+
+test("Type checking the prelude.", () => {
+	expect(prelude_tests[0]).toBeCorrect();
+	expect(prelude_tests[1]).toBeCorrect();
+	expect(prelude_tests[2]).toBeCorrect();
+	expect(prelude_tests[3]).toBeCorrect();
+	expect(
+		'words := ["ave"]\nn := words.reduce((total: num, word: str) -> total + word.length)'
+	).toHaveTypeError(
+		"cannot assign argument of type '(total: num , word: str ) -> num' to parameter of type '(acc: str , value: str , index: num ) -> str'."
+	);
+	expect('xs := [1, 2]\nxs.push("3")').toHaveTypeError(
+		"cannot assign argument of type 'str' to rest parameter of type 'Array<num>'."
+	);
+	expect('xs := ["a"]\nn: str = xs.indexOf("a")').toHaveTypeError(
+		"cannot intialize 'n' of type 'str' with type 'num'"
+	);
+	expect('s := "ave"\nn := s.size').toHaveTypeError("property 'size' does not exist on type str");
+	expect("x := Math.max(1, 2).toFixed()\ny: num = x").toHaveTypeError(
+		"cannot intialize 'y' of type 'num' with type 'str'"
+	);
+	expect('ages := new Map() as Map<str, num>\nages.set("ave", "one")').toHaveTypeError(
+		"cannot assign argument of type 'str' to parameter of type 'num'."
+	);
+	expect("ages := new Map<str, num>()\nages.set(1, 2)").toHaveTypeError(
+		"cannot assign argument of type 'num' to parameter of type 'str'."
+	);
+	expect("s := new Set<str, num>()").toHaveTypeError("Expected 1 type arguments, but got 2.");
+	expect("m := Map()").toHaveTypeError(
+		"A value of type 'new <K, V>(?entries: Array<[K, V]> ) -> Map<K,V>' can only be called with 'new'."
+	);
 });
 
 // function declaration and calling
@@ -188,3 +877,580 @@ test("Type checking functions.", () => {
 	);
 	expect(func_tests[1]).toHaveTypeError("Missing argument 'b' to function call.");
 });
+
+// generic functions
+
+const generic_func_tests: string[] = [];
+
+generic_func_tests[0] = `
+func <T>first(xs: T[]): T
+  return xs[0]
+
+s: str = first([1, 2])
+`;
+
+generic_func_tests[1] = `
+func <T>first(xs: T[]): T
+  return xs[0]
+
+first<num>(["a"])
+`;
+
+generic_func_tests[2] = `
+func <A, B>pair(a: A, b: B): [A, B]
+  return [a, b]
+
+p := pair<num>(1, "one")
+`;
+
+generic_func_tests[3] = `
+func add(a: num, b: num): num
+  return a + b
+
+add<num>(1, 2)
+`;
+
+generic_func_tests[4] = `
+struct ListNode<T>
+  value: T
+  next: ListNode<T> | nil
+
+func <T>last(head: ListNode<T>): T
+  node := head
+  while node.next != nil
+    node = node.next as ListNode<T>
+  return node.value
+
+func <T, U>apply(x: T, fn: (x: T) -> U): U
+  return fn(x)
+
+id := func <T>(x: T): T
+  return x
+
+# type parameters can also follow the name.
+func head<T>(node: ListNode<T>): T
+  return node.value
+
+list: ListNode<num> = { value: 1, next: { value: 2, next: nil } }
+n: num = last(list)
+s: str = apply(n, (x: num) -> "#" + x)
+p: [num, str] = [id(1), id<str>("a")]
+doubled: num[] = [1, 2].map((x: num) -> x * 2)
+less := n < 2
+h: num = head(list)
+`;
+
+test("Type checking generic functions.", () => {
+	expect(generic_func_tests[0]).toHaveTypeError(
+		"cannot intialize 's' of type 'str' with type 'num'"
+	);
+	expect(generic_func_tests[1]).toHaveTypeError(
+		"cannot assign argument of type 'Array<str>' to parameter of type 'Array<num>'."
+	);
+	expect(generic_func_tests[2]).toHaveTypeError("Expected 2 type arguments, but got 1.");
+	expect(generic_func_tests[3]).toHaveTypeError("Expected 0 type arguments, but got 1.");
+	expect(generic_func_tests[4]).toBeCorrect();
+
+	expect(parse("func <T>f<U>(x: T)\n  return x").errors[0].message).toBe(
+		"Type parameters cannot be written both before and after the name."
+	);
+
+	expect(declarationsOf("export func <T>first(xs: T[]): T\n  return xs[0]")).toBe(
+		"export declare function first<T>(xs: T[]): T;\n"
+	);
+});
+
+// generic constraints and defaults
+
+function bindErrors(src: string): string[] {
+	const errors: string[] = [];
+	new Binder(parse(src), err => errors.push(err.message)).bind();
+	return errors;
+}
+
+const constraint_tests: string[] = [];
+
+constraint_tests[0] = `
+struct Named
+  name: str
+
+struct Person
+  name: str
+  age: num
+
+struct Box<T: Named>
+  item: T
+
+struct Pair<A, B = A>
+  first: A
+  second: B
+
+func <T: Named>label(box: Box<T>): str
+  named: Named = box.item
+  return box.item.name
+
+func <T = num>empty(): T[]
+  return []
+
+person: Person = { name: "ave", age: 1 }
+box: Box<Person> = { item: person }
+pair: Pair<num> = { first: 1, second: 2 }
+s: str = label(box) + label<Person>(box)
+nums: num[] = empty()
+strs: str[] = empty<str>()
+`;
+
+constraint_tests[1] = `
+struct Named
+  name: str
+
+func <T: Named>greet(x: T): str
+  return x.name
+
+greet(1)
+`;
+
+constraint_tests[2] = `
+struct Pair<A, B = A>
+  first: A
+  second: B
+
+p: Pair<num> = { first: 1, second: "two" }
+`;
+
+test("Type checking generic constraints and defaults.", () => {
+	expect(constraint_tests[0]).toBeCorrect();
+	expect(constraint_tests[1]).toHaveTypeError(
+		"Type 'num' does not satisfy the constraint 'Named' of type parameter 'T'."
+	);
+	expect(constraint_tests[2]).toHaveTypeError(
+		"cannot intialize 'p' of type 'Pair<num,num>' with type '{first: num, second: str}'"
+	);
+
+	const named = "struct Named\n  name: str\n";
+	expect(
+		bindErrors(named + "struct Box<T: Named>\n  item: T\nb: Box<str> = { item: 'a' }")
+	).toEqual(["Type 'str' does not satisfy the constraint 'Named' of type parameter 'T'."]);
+	expect(bindErrors(named + "struct Box<T: Named = num>\n  item: T")).toEqual([
+		"Type 'num' does not satisfy the constraint 'Named' of type parameter 'T'.",
+	]);
+	// a default that breaks its constraint is reported where it is declared and used.
+	expect(bindErrors("struct Box<T: num = str>\n  v: T\nlet b: Box = { v: 1 }")).toEqual([
+		"Type 'str' does not satisfy the constraint 'num' of type parameter 'T'.",
+		"Type 'str' does not satisfy the constraint 'num' of type parameter 'T'.",
+	]);
+	expect(bindErrors("struct Pair<A, B = A>\n  first: A\np: Pair<num, num, num>")).toEqual([
+		"type 'Pair' expects between 1 and 2 type arguments but 3 were provided.",
+	]);
+	expect(parse("func <T = num, U>f(x: U)\n  return").errors[0].message).toBe(
+		"Required type parameters may not follow optional type parameters."
+	);
+});
+
+// classes
+
+const class_tests: string[] = [];
+
+class_tests[0] = `
+class Point
+  x: num
+  y: num
+  new(x: num, y: num)
+    @x = x
+    @y = y
+
+p := new Point(1)
+`;
+
+class_tests[1] = `
+class Point
+  x = 0
+  move(dx: num)
+    @x += dx
+    @z = 1
+`;
+
+class_tests[2] = `
+class Counter
+  count = 0
+
+c := new Counter()
+c.count = "zero"
+`;
+
+test("Type checking classes.", () => {
+	expect(class_tests[0]).toHaveTypeError("Missing argument 'y' to function call.");
+	expect(class_tests[1]).toHaveTypeError("property 'z' does not exist on type Point");
+	expect(class_tests[2]).toHaveTypeError("Cannot assign type 'str' to type 'num'.");
+	expect("this.x = 1").toHaveTypeError("'this' cannot be used outside of a class body.");
+	// fields initialized with a literal can be used before their class.
+	expect("func f(b: B): str\n  return b.x\nclass B\n  x = 1").toHaveTypeError(
+		"Incorrect return type 'num'. Expected value of type 'str'"
+	);
+	expect("func f(b: B): num\n  return b.xs.length\nclass B\n  xs = [1]").toHaveTypeError(
+		"field 'xs' requires explicit type annotation, or its class must be declared before use."
+	);
+});
+
+class_tests[3] = `
+class Animal
+  name: str
+  new(name: str)
+    @name = name
+  speak(): str
+    return @name
+
+class Dog < Animal
+  speak(): num
+    return 1
+`;
+
+class_tests[4] = `
+class Animal
+  name = "animal"
+
+class Dog < Animal
+  new()
+    @name = "dog"
+`;
+
+class_tests[5] = `
+class Animal
+  name: str
+  new(name: str)
+    @name = name
+
+class Dog < Animal
+  bark(): str
+    return "woof"
+
+d := new Dog(10)
+`;
+
+test("Type checking class inheritance.", () => {
+	expect(class_tests[3]).toHaveTypeError(
+		"'speak' of type '() -> num' in class 'Dog' is not compatible with '() -> str' in base class 'Animal'."
+	);
+	expect(class_tests[4]).toHaveTypeError("Derived class constructors must call 'super'.");
+	expect(class_tests[5]).toHaveTypeError(
+		"cannot assign argument of type 'num' to parameter of type 'str'."
+	);
+});
+
+// enums
+
+const enum_tests: string[] = [];
+
+enum_tests[0] = `
+enum Color
+  Red
+  Green
+
+c: Color = 1
+`;
+
+enum_tests[1] = `
+enum Color
+  Red
+  Green
+
+enum Size
+  Small
+  Large
+
+c: Color = Size.Small
+`;
+
+test("Type checking enums.", () => {
+	expect(enum_tests[0]).toHaveTypeError("cannot intialize 'c' of type 'Color' with type 'num'");
+	expect(enum_tests[1]).toHaveTypeError("cannot intialize 'c' of type 'Color' with type 'Size'");
+	expect("enum E\n  A\nx := E.B").toHaveTypeError("property 'B' does not exist on type typeof E");
+	expect("enum Color\n  Red\n  Blue\nColor.Red = Color.Blue").toHaveTypeError(
+		"Invalid assignment to a member of enum 'Color'"
+	);
+	expect(
+		"enum Color\n  Red\nstruct Paint\n  color: Color\np: Paint = { color: Color.Red }\np.color = Color.Red"
+	).toBeCorrect();
+});
+
+// switch statements
+
+const switch_tests: string[] = [];
+
+switch_tests[0] = `
+x := 10
+switch x
+  case 1, "two"
+    x = 2
+`;
+
+test("Type checking switch statements.", () => {
+	expect(switch_tests[0]).toHaveTypeError(
+		"Cannot compare case of type 'str' with switch value of type 'num'."
+	);
+	// '==' itself still compares values of any type.
+	expect(`a := 1 == "1"`).toBeCorrect();
+});
+
+// match expressions
+
+const match_tests: string[] = [];
+
+match_tests[0] = `
+x: num | str | nil = 1
+y := match x
+  when num -> 1
+  when nil -> 2
+`;
+
+match_tests[1] = `
+struct Circle
+  r: num
+struct Rect
+  w: num
+
+func width(s: Circle | Rect): num
+  return match s
+    when Circle -> s.w
+    when Rect -> s.w
+`;
+
+match_tests[2] = `
+x: num | str = 1
+y: num = match x
+  when num -> 1
+  when str -> "one"
+`;
+
+match_tests[3] = `
+func size(x: num[] | [str, str] | nil): num
+  return match x
+    when num[] -> x.length
+    when [str, str] -> 2
+    when nil -> 0
+`;
+
+test("Type checking match expressions.", () => {
+	expect(match_tests[0]).toHaveTypeError("Match is not exhaustive, no arm matches type 'str'.");
+	expect(match_tests[1]).toHaveTypeError("property 'w' does not exist on type Circle");
+	expect(match_tests[2]).toHaveTypeError("cannot intialize 'y' of type 'num' with type 'num|str'");
+	expect(`x := 1\ny := match x\n  when str -> 1\n  default -> 2`).toHaveTypeError(
+		"Pattern of type 'str' can never match a value of type 'num'."
+	);
+
+	// type parameters have no value to test against at runtime.
+	expect("func <T>isT(x: any): bool\n  return x is T").toHaveTypeError(
+		"Cannot test for type 'T' at runtime."
+	);
+
+	const checked = typecheck(parse(match_tests[3]));
+	const code = new JSGenerator(checked.ast).generateJS();
+	expect(code).toContain(
+		'if (Array.isArray($$m) && $$m.every(e => typeof e === "number")) return x.length;'
+	);
+	expect(code).toContain(
+		'if (Array.isArray($$m) && $$m.length === 2 && typeof $$m[0] === "string" && typeof $$m[1] === "string") return 2;'
+	);
+});
+
+// narrowing
+
+const narrowing_tests: string[] = [];
+
+narrowing_tests[0] = `
+struct Node
+  value: num
+  next: Node | nil
+
+func sum(head: Node | nil): num
+  total := 0
+  current := head
+  while current != nil
+    total += current.value
+    current = current.next
+  return total
+
+func second(head: Node | nil): num
+  if head == nil or head.next == nil
+    return 0
+  next := head.next
+  if next != nil and next.value > 0
+    return next.value
+  return 0
+
+func describe(x: num | str | nil): str
+  if x is num
+    return x.toFixed(2)
+  elif x is str
+    return x.toUpperCase()
+  else
+    return "nil"
+`;
+
+narrowing_tests[1] = `
+struct Node
+  value: num
+
+func value(node: Node | nil): num
+  if node != nil
+    node = nil
+    return node.value
+  return 0
+`;
+
+narrowing_tests[2] = `
+struct Node
+  value: num
+  next: Node | nil
+
+func last(node: Node): num
+  current: Node | nil = node
+  while current != nil
+    current = current.next
+  return current.value
+`;
+
+narrowing_tests[3] = `
+func sum(a: num | nil): num
+  if a == nil
+    return 0
+  total := 0
+  i := 0
+  while i < 3
+    total += a
+    switch i
+      case 1
+        a = nil
+    i += 1
+  return total
+`;
+
+test("Type checking narrowing.", () => {
+	expect(narrowing_tests[0]).toBeCorrect();
+	expect(narrowing_tests[1]).toHaveTypeError("property 'value' does not exist on type Node|nil");
+	expect(narrowing_tests[2]).toHaveTypeError("property 'value' does not exist on type nil");
+	// assignments inside a switch in the loop are seen before the loop body is checked.
+	expect(narrowing_tests[3]).toHaveTypeError(
+		"Cannot use operator '+=' on operand types 'num|nil' and 'num'"
+	);
+	expect("struct P\n  x: num\nfunc f(p: P | nil): num\n  return p.x").toHaveTypeError(
+		"property 'x' does not exist on type P|nil"
+	);
+	expect("func f(x: num)\n  if x is str\n    return 1").toHaveTypeError(
+		"A value of type 'num' can never be of type 'str'."
+	);
+});
+
+// definite assignment
+
+const assignment_tests: string[] = [];
+
+assignment_tests[0] = `
+func grade(score: num): str
+  label: str
+  if score > 90
+    label = "A"
+  elif score > 50
+    label = "B"
+  else
+    return "F"
+  return label
+
+func size(n: num): str
+  name: str
+  switch n
+    case 1
+      name = "one"
+    default
+      name = "many"
+  return name
+
+total: num
+func getTotal(): num
+  return total
+total = 10
+`;
+
+assignment_tests[3] = `
+func getLimit(): num
+  return limit
+var limit = 10
+console.log(getLimit())
+`;
+
+assignment_tests[1] = `
+func grade(score: num): str
+  label: str
+  if score > 50
+    label = "pass"
+  return label
+`;
+
+assignment_tests[2] = `
+func count(n: num): num
+  i: num
+  while n > 0
+    i = n
+    n -= 1
+  return i
+`;
+
+test("Type checking definite assignment.", () => {
+	expect(assignment_tests[0]).toBeCorrect();
+	expect(assignment_tests[1]).toHaveTypeError("Variable 'label' is used before being assigned.");
+	expect(assignment_tests[2]).toHaveTypeError("Variable 'i' is used before being assigned.");
+	expect("x: num\nx += 1").toHaveTypeError("Variable 'x' is used before being assigned.");
+	expect("const x: num").toHaveTypeError("'const' declarations must be initialized.");
+	expect("console.log(x)\nvar x = 1").toHaveTypeError(
+		"Variable 'x' is used before its declaration."
+	);
+	expect(assignment_tests[3]).toBeCorrect();
+	expect("func f(): str\n  return v\nvar v = 1").toHaveTypeError(
+		"Incorrect return type 'num'. Expected value of type 'str'"
+	);
+	expect("func f(): num\n  return v\nvar v = (() -> v)()").toHaveTypeError(
+		"Variable 'v' must be type annotated to be used before its declaration."
+	);
+});
+
+// break and continue
+
+const jump_tests: string[] = [];
+
+jump_tests[0] = `
+func firstNegative(xs: num[]): num
+  found := 0
+  outer: for x of xs
+    while true
+      if x < 0
+        found = x
+        break outer
+      continue outer
+  return found
+
+struct Node
+  value: num
+  next: Node | nil
+
+func firstBig(head: Node | nil): num
+  current := head
+  while current != nil
+    if current.value > 10
+      break
+    current = current.next
+  if current != nil
+    return current.value
+  return 0
+`;
+
+test("Type checking break and continue.", () => {
+	expect(jump_tests[0]).toBeCorrect();
+	expect("break").toHaveTypeError("'break' can only be used inside a loop.");
+	expect("while true\n  f := func()\n    continue").toHaveTypeError(
+		"'continue' can only be used inside a loop."
+	);
+	expect("while true\n  break outer").toHaveTypeError("Cannot find a loop with the label 'outer'.");
+	expect("outer: while true\n  outer: while true\n    break outer").toHaveTypeError(
+		"Duplicate label 'outer'."
+	);
+});
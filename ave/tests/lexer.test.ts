@@ -82,6 +82,25 @@ test("scanning operators", () => {
   ]);
 });
 
+test("scanning optional chaining operators", () => {
+  expect(tokens("a?.b ?? c")).toMatchTokens([
+    TT.NAME,
+    TT.QUESTION_DOT,
+    TT.NAME,
+    TT.QUESTION_QUESTION,
+    TT.NAME,
+    TT.EOF,
+  ]);
+
+  expect(tokens("a?: b")).toMatchTokens([
+    TT.NAME,
+    TT.QUESTION,
+    TT.COLON,
+    TT.NAME,
+    TT.EOF,
+  ]);
+});
+
 test("scanning strings", () => {
   expect(tokens(`"string 1" 'string 2'`)).toMatchTokens([
     TT.LITERAL_STR,
@@ -90,6 +109,33 @@ test("scanning strings", () => {
   ]);
 });
 
+test("scanning interpolated strings", () => {
+  expect(tokens(`"a {b} c {d + 1} e" 'x {{ y: 1 }.y}' "\\{f}"`)).toMatchTokens([
+    TT.TEMPLATE_HEAD,
+    TT.NAME,
+    TT.TEMPLATE_MIDDLE,
+    TT.NAME,
+    TT.PLUS,
+    TT.LITERAL_NUM,
+    TT.TEMPLATE_TAIL,
+    TT.TEMPLATE_HEAD,
+    TT.L_BRACE,
+    TT.NAME,
+    TT.COLON,
+    TT.LITERAL_NUM,
+    TT.R_BRACE,
+    TT.DOT,
+    TT.NAME,
+    TT.TEMPLATE_TAIL,
+    TT.LITERAL_STR,
+    TT.EOF,
+  ]);
+
+  const [head, , tail] = tokens(`"Hello \${name}!"`);
+  expect(head.value).toBe("Hello ");
+  expect(tail.value).toBe("!");
+});
+
 test("scanning numbers", () => {
   expect(
     tokens("123 123.5 124.2e3 0xff01 0b110101 15e10 11.5e-1")
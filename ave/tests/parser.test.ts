@@ -3,6 +3,7 @@ import NodeKind = require("../parser/ast/nodekind");
 import AveParser from "../parser/aveparser";
 import TokenType = require("../lexer/tokentype");
 import Checker from "../checker/checker";
+import * as AST from "../parser/ast/ast";
 
 declare global {
   namespace jest {
@@ -187,6 +188,211 @@ while k
             right: { kind: NodeKind.Literal, value: 1 } } } ] } } ] )
 });
 
+test("parse for..of and for..in loops.", () => {
+  // prettier-ignore
+  expect(`
+for x of xs
+  x
+for k in obj
+  k
+  `).toMatchAST([{
+    kind: NodeKind.ForOfStmt,
+    iterator: { name: "x" },
+    iterable: { kind: NodeKind.Identifier, name: "xs" },
+    body: { statements: [ { expr: { name: "x" } } ] },
+  },
+  {
+    kind: NodeKind.ForInStmt,
+    iterator: { name: "k" },
+    object: { kind: NodeKind.Identifier, name: "obj" },
+    body: { statements: [ { expr: { name: "k" } } ] } } ]);
+});
+
+test("break and continue.", () => {
+  // prettier-ignore
+  expect(`
+outer: while true
+  for x of xs
+    break
+  continue outer
+done: num = 1
+  `).toMatchAST([{
+    kind: NodeKind.WhileStmt,
+    label: { name: "outer" },
+    body: { statements: [
+      { kind: NodeKind.ForOfStmt, body: { statements: [ { kind: NodeKind.BreakStmt, label: undefined } ] } },
+      { kind: NodeKind.ContinueStmt, label: { name: "outer" } } ] } },
+  {
+    kind: NodeKind.VarDeclaration,
+    declarators: [ { name: "done", value: { value: 1 } } ] } ]);
+});
+
+test("string interpolation.", () => {
+  // prettier-ignore
+  expect(`"Hello {name}, you are {age + 1}!"`).toMatchAST([{
+    kind: NodeKind.ExprStmt,
+    expr: {
+      kind: NodeKind.TemplateLiteral,
+      strings: ["Hello ", ", you are ", "!"],
+      expressions: [
+        { kind: NodeKind.Identifier, name: "name" },
+        { kind: NodeKind.BinaryExpr, left: { name: "age" } } ] } }]);
+
+  expect(`"{a b}"`).toHaveError("Expected '}' after interpolated expression.");
+});
+
+test("type casts.", () => {
+  // prettier-ignore
+  expect("a + b as num | str").toMatchAST([{
+    kind: NodeKind.ExprStmt,
+    expr: {
+      kind: NodeKind.CastExpr,
+      expr: { kind: NodeKind.BinaryExpr, left: { name: "a" }, right: { name: "b" } },
+      typeInfo: { token: { raw: "num" } } } }]);
+
+  const cast = (toAST("x as num | str")[0] as AST.ExprStmt).expr as AST.CastExpr;
+  expect(cast.typeInfo.type.toString()).toBe("num|str");
+});
+
+test("optional chaining and nil coalescing.", () => {
+  // prettier-ignore
+  expect("a?.b?.[c]?.(d) ?? e").toMatchAST([{
+    kind: NodeKind.ExprStmt,
+    expr: {
+      kind: NodeKind.BinaryExpr,
+      operator: { type: TokenType.QUESTION_QUESTION },
+      left: {
+        kind: NodeKind.CallExpr,
+        isOptional: true,
+        args: [{ name: "d" }],
+        callee: {
+          kind: NodeKind.MemberAcessExpr,
+          isOptional: true,
+          isIndexed: true,
+          property: { name: "c" },
+          object: {
+            kind: NodeKind.MemberAcessExpr,
+            isOptional: true,
+            isIndexed: false,
+            object: { name: "a" },
+            property: { name: "b" } } } },
+      right: { name: "e" } } }]);
+
+  expect("a?.").toHaveError("Expected property name after '?.'.");
+});
+
+test("spread and rest.", () => {
+  // prettier-ignore
+  expect(`
+func f(a: num, ...rest: num[])
+  return [a, ...rest]
+f(...xs)
+o := { ...base, x: 1 }
+  `).toMatchAST([{
+    kind: NodeKind.FunctionDecl,
+    lambda: {
+      params: [{ name: "a", isRest: false }, { name: "rest", isRest: true }],
+      body: { statements: [{
+        kind: NodeKind.ReturnStmt,
+        expr: {
+          kind: NodeKind.ArrayExpr,
+          elements: [{ name: "a" }, { kind: NodeKind.SpreadExpr, expr: { name: "rest" } }] } }] } },
+  },
+  {
+    kind: NodeKind.ExprStmt,
+    expr: { kind: NodeKind.CallExpr, args: [{ kind: NodeKind.SpreadExpr, expr: { name: "xs" } }] },
+  }]);
+
+  const decl = toAST("o := { ...base, x: 1 }")[0] as AST.VarDeclaration;
+  const obj = decl.declarators[0].value as AST.ObjectExpr;
+  const values = Array.from(obj.kvPairs.values());
+  expect(values[0].kind).toBe(NodeKind.SpreadExpr);
+  expect(values[1].kind).toBe(NodeKind.Literal);
+
+  expect("func f(...a, b)\n  return").toHaveError(
+    "rest parameter must be the last in parameter list."
+  );
+});
+
+test("tuple types.", () => {
+  const decl = toAST("t: [num, [str, bool]] = [1, [\"a\", true]]")[0] as AST.VarDeclaration;
+  expect(decl.declarators[0].typeInfo.type.toString()).toBe("[num, [str, bool]]");
+
+  const func = toAST("func f(p: [num, str])\n  return")[0] as AST.FunctionDeclaration;
+  const param = func.lambda.params[0];
+  expect(param.typeInfo.type.toString()).toBe("[num, str]");
+
+  expect("t: [num, str = 1").toHaveError("Expected ']' after tuple element types.");
+});
+
+test("imports and exports.", () => {
+  // prettier-ignore
+  expect(`
+import { add, Point } from "./math"
+export func double(x: num)
+  return add(x, x)
+export origin := 0
+  `).toMatchAST([
+    { kind: NodeKind.ImportDecl, names: [{ name: "add" }, { name: "Point" }], path: { value: "./math" } },
+    { kind: NodeKind.ExportDecl, declaration: { kind: NodeKind.FunctionDecl, name: "double" } },
+    { kind: NodeKind.ExportDecl, declaration: { declarators: [{ name: "origin" }] } },
+  ]);
+
+  const exported = toAST("export enum Color\n  Red\nexport type Id = num")[1] as AST.ExportDecl;
+  expect(exported.names).toEqual(["Id"]);
+
+  expect('import { a } "./a"').toHaveError("Expected 'from' after imported names.");
+  expect('import { a } form "./a"').toHaveError("Expected 'from' after imported names.");
+  expect("export a + 1").toHaveError("Expected a declaration after 'export'.");
+  expect("func f()\n  export x := 1").toHaveError(
+    "Exports are only allowed at the top level of a file."
+  );
+  expect('if true\n  import { a } from "./a"').toHaveError(
+    "Imports are only allowed at the top level of a file."
+  );
+});
+
+test("ambient declarations.", () => {
+  // prettier-ignore
+  expect(`
+declare const document: any
+declare func parseInt(text: str, radix: num): num
+declare struct Console
+  log: (...values: any[]) -> void
+  `).toMatchAST([
+    { kind: NodeKind.AmbientDecl, name: "document" },
+    { kind: NodeKind.AmbientDecl, name: "parseInt" },
+    { kind: NodeKind.RecordDeclaration, name: "Console" },
+  ]);
+
+  const func = toAST("declare func alert(message: str)")[0] as AST.AmbientDecl;
+  expect(func.typeInfo.type.toString()).toBe("(message: str ) -> void");
+
+  expect("declare const x").toHaveError("Ambient declarations must have a type annotation.");
+  expect("declare let x: num = 1").toHaveError("Ambient declarations cannot be initialized.");
+  expect("declare x").toHaveError(
+    "Expected 'func', 'const', 'let', 'var' or 'struct' after 'declare'."
+  );
+  expect("func f()\n  declare const x: num").toHaveError(
+    "Ambient declarations are only allowed at the top level of a file."
+  );
+});
+
+test("optional parameters and keyword property names.", () => {
+  const decl = toAST("declare const f: (a: num, b?: str) -> num")[0] as AST.AmbientDecl;
+  expect(decl.typeInfo.type.toString()).toBe("(a: num , ?b: str ) -> num");
+
+  // prettier-ignore
+  expect("m.set(k, v)").toMatchAST([{
+    kind: NodeKind.ExprStmt,
+    expr: {
+      kind: NodeKind.CallExpr,
+      callee: {
+        kind: NodeKind.MemberAcessExpr,
+        object: { name: "m" },
+        property: { name: "set" } } } }]);
+});
+
 // prettier-ignore
 test("arrays and indexing", () => {
   expect("array[index]").toMatchAST([{
@@ -225,6 +431,21 @@ while k
   expect("if foo").toHaveError("Expected indent before 'if' body.");
 });
 
+test("error inside a block", () => {
+  // the rest of the block is skipped, up to the end of the block.
+  expect(`
+while k
+  a = )
+  b = 2
+c = 3
+  `).toHaveError("Unexpected ')'");
+
+  expect(`
+if k
+  a = )
+  `).toHaveError("Unexpected ')'");
+});
+
 test("arrow functions.", () => {
   // prettier-ignore
   expect(`
@@ -246,3 +467,120 @@ var dbl = (a: num) -> a * 2
               right: { value: 2 }}}]}}}]}]
   );
 });
+
+test("class declarations.", () => {
+  // prettier-ignore
+  expect(`
+class Point
+  x: num = 0
+  static count = 0
+  new(x: num)
+    @x = x
+  `).toMatchAST([{
+    kind: NodeKind.ClassDecl,
+    name: "Point",
+    properties: [
+      { name: { raw: "x" }, isStatic: false, value: { value: 0 } },
+      { name: { raw: "count" }, isStatic: true },
+    ],
+    ctor: {
+      kind: NodeKind.FunctionExpr,
+      body: {
+        statements: [{
+          kind: NodeKind.ExprStmt,
+          expr: {
+            kind: NodeKind.AssignmentExpr,
+            left: {
+              kind: NodeKind.MemberAcessExpr,
+              object: { kind: NodeKind.ThisExpr },
+              property: { name: "x" } },
+            right: { name: "x" }}}]}}}]
+  );
+
+  expect(`
+class A
+  new()
+    pass
+  new()
+    pass
+  `).toHaveError("A class may only have one constructor.");
+});
+
+test("enum declarations.", () => {
+  // prettier-ignore
+  expect(`
+enum Color
+  Red
+  Green = 5
+  Blue
+  Custom = "custom"
+  `).toMatchAST([{
+    kind: NodeKind.EnumDecl,
+    name: "Color",
+    members: [
+      { name: { raw: "Red" }, value: 0 },
+      { name: { raw: "Green" }, value: 5 },
+      { name: { raw: "Blue" }, value: 6 },
+      { name: { raw: "Custom" }, value: "custom" },
+    ]}]
+  );
+
+  expect(`
+enum Status
+  Active = "active"
+  Banned
+  `).toHaveError("Enum member 'Banned' must be initialized.");
+});
+
+test("switch statements.", () => {
+  // prettier-ignore
+  expect(`
+switch x
+  case 1, 2
+    y = 1
+    fall
+  default
+    y = 2
+  `).toMatchAST([{
+    kind: NodeKind.SwitchStmt,
+    discriminant: { name: "x" },
+    cases: [
+      { tests: [{ value: 1 }, { value: 2 }], isDefault: false, fallsThrough: true },
+      { tests: [], isDefault: true, fallsThrough: false },
+    ]}]
+  );
+
+  expect(`
+switch x
+  case 1
+    fall
+    y = 1
+  `).toHaveError("'fall' must be the last statement in a case.");
+});
+
+test("match expressions.", () => {
+  // prettier-ignore
+  expect(`
+a := match x
+  when 1 -> "one"
+  when str -> x
+  default -> "other"
+  `).toMatchAST([{
+    kind: NodeKind.VarDeclaration,
+    declarators: [{
+      value: {
+        kind: NodeKind.MatchExpr,
+        subject: { name: "x" },
+        arms: [
+          { pattern: { kind: NodeKind.Literal, value: 1 }, body: { value: "one" } },
+          { pattern: { token: { raw: "str" } }, body: { name: "x" } },
+          { body: { value: "other" } },
+        ]}}]}]
+  );
+
+  expect(`
+a := match x
+  default -> 1
+  when 1 -> 2
+  `).toHaveError("The 'default' arm must be the last arm of a match.");
+});
@@ -0,0 +1,66 @@
+import FunctionType from "./function-type";
+import ObjectType from "./object-type";
+import { Type } from "./types";
+
+/**
+ * The type of a class. A class has two member tables, the static
+ * members live in the `properties` table of the class type itself,
+ * while the members available on instances of the class are stored
+ * in `instanceType`.
+ * In type annotations, the name of a class refers to the instance type.
+ * A derived class uses it's base class as the super type, and the
+ * base class' instance type as the super type of it's own instance type,
+ * so that inherited members are found through `getProperty`.
+ */
+export default class ClassType extends Type {
+	public readonly name: string;
+	public readonly instanceType: InstanceType;
+	// signature of the constructor, the return
+	// type is always the instance type.
+	public ctor: FunctionType;
+	public baseClass: ClassType | null = null;
+
+	constructor(name: string) {
+		super(name, false);
+		this.name = name;
+		this.instanceType = new InstanceType(this);
+		this.ctor = new FunctionType("", [], this.instanceType);
+	}
+
+	public setBaseClass(base: ClassType) {
+		this.baseClass = base;
+		this.superType = base;
+		this.instanceType.superType = base.instanceType;
+	}
+
+	public defineInstanceMember(name: string, type: Type) {
+		this.instanceType.defineProperty(name, type);
+	}
+
+	public defineStaticMember(name: string, type: Type) {
+		this.defineProperty(name, type);
+	}
+
+	// classes are nominal, a class type
+	// is never copied.
+	public clone(): ClassType {
+		return this;
+	}
+
+	public toString() {
+		return `class ${this.name}`;
+	}
+}
+
+/**
+ * The type of the instances of a class. Keeps a reference to the
+ * class, so that values can be tested with `instanceof` at runtime.
+ */
+export class InstanceType extends ObjectType {
+	public readonly classType: ClassType;
+
+	constructor(classType: ClassType) {
+		super(classType.name);
+		this.classType = classType;
+	}
+}
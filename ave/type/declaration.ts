@@ -2,6 +2,7 @@ import Environment from "../parser/symbol_table/environment";
 import { DeclarationKind } from "../parser/symbol_table/symtable";
 import { Type, t_any } from "./types";
 import FunctionType, { ParameterTypeInfo } from "./function-type";
+import { GenericFunctionType } from "./generic-type";
 import * as AST from "../parser/ast/ast";
 
 // declarations that need to be hoisted
@@ -21,7 +22,8 @@ export class HoistedVarDeclaration implements Declaration {
   readonly type: Type;
   defined: boolean;
 
-  constructor(name: string, type: Type, defined: boolean = false) {
+  // parameters and loop variables always have a value.
+  constructor(name: string, type: Type, defined: boolean = true) {
     this.name = name;
     this.type = type;
     this.defined = defined;
@@ -38,11 +40,62 @@ export class HoistedVarDeclaration implements Declaration {
   }
 }
 
+// names imported from other modules are
+// constants, they cannot be reassigned.
+export class ImportDeclaration implements Declaration {
+  readonly name: string;
+  readonly type: Type;
+
+  constructor(name: string, type: Type) {
+    this.name = name;
+    this.type = type;
+  }
+
+  defineIn(env: Environment) {
+    env.define(this.name, {
+      name: this.name,
+      dataType: this.type,
+      currentType: this.type,
+      declarationKind: DeclarationKind.Constant,
+      isDefined: true,
+    });
+  }
+}
+
+export class AmbientDeclaration implements Declaration {
+  readonly name: string;
+  private readonly node: AST.AmbientDecl;
+
+  constructor(node: AST.AmbientDecl) {
+    this.name = node.name;
+    this.node = node;
+  }
+
+  // the annotated type is resolved by the type binder.
+  get type(): Type {
+    return this.node.typeInfo.type;
+  }
+
+  defineIn(env: Environment) {
+    env.define(this.name, {
+      name: this.name,
+      dataType: this.type,
+      currentType: this.type,
+      declarationKind: this.node.declarationKind,
+      isDefined: true,
+    });
+  }
+}
+
 export class FuncDeclaration implements Declaration {
   readonly name: string;
-  type: FunctionType;
+  private readonly node: AST.FunctionExpr;
 
-  public static fromASTNode(name: string, node: AST.FunctionExpr) {
+  /**
+   * Builds the type of a function from it's AST Node.
+   * @param node {AST.FunctionExpr} the function.
+   */
+  public static typeOf(node: AST.FunctionExpr): FunctionType {
     let params: ParameterTypeInfo[] = [];
     for (let p of node.params) {
       params.push({
@@ -52,13 +105,26 @@ export class FuncDeclaration implements Declaration {
         isRest: p.isRest,
       });
     }
-    const func = new FunctionType("", params, node.returnTypeInfo.type);
-    return new FuncDeclaration(name, func);
+    const returnType = node.returnTypeInfo.type;
+    if (node.isGeneric) {
+      return new GenericFunctionType(params, returnType, node.typeParams);
+    }
+    return new FunctionType("", params, returnType);
   }
 
-  constructor(name: string, type: FunctionType) {
+  public static fromASTNode(name: string, node: AST.FunctionExpr) {
+    return new FuncDeclaration(name, node);
+  }
+
+  constructor(name: string, node: AST.FunctionExpr) {
     this.name = name || "<function>";
-    this.type = type;
+    this.node = node;
+  }
+
+  // the type is built lazily, so that the parameter
+  // types resolved by the type binder are visible.
+  get type(): FunctionType {
+    return FuncDeclaration.typeOf(this.node);
   }
 
   public defineIn(env: Environment) {
@@ -72,4 +138,58 @@ export class FuncDeclaration implements Declaration {
   }
 }
 
+export class ClassDeclaration implements Declaration {
+  readonly name: string;
+  private readonly node: AST.ClassDecl;
+
+  constructor(node: AST.ClassDecl) {
+    this.name = node.name;
+    this.node = node;
+  }
+
+  get type(): Type | undefined {
+    return this.node.type || undefined;
+  }
+
+  public defineIn(env: Environment) {
+    // the class type is constructed by the type binder,
+    // if it failed to do so, an error has already been reported.
+    if (!this.node.type) return;
+
+    env.define(this.name, {
+      name: this.name,
+      dataType: this.node.type,
+      currentType: this.node.type,
+      declarationKind: DeclarationKind.Constant,
+      isDefined: true,
+    });
+  }
+}
+
+export class EnumDeclaration implements Declaration {
+  readonly name: string;
+  private readonly node: AST.EnumDecl;
+
+  constructor(node: AST.EnumDecl) {
+    this.name = node.name;
+    this.node = node;
+  }
+
+  get type(): Type | undefined {
+    return this.node.type ? this.node.type.objectType : undefined;
+  }
+
+  public defineIn(env: Environment) {
+    if (!this.node.type) return;
+
+    env.define(this.name, {
+      name: this.name,
+      dataType: this.node.type.objectType,
+      currentType: this.node.type.objectType,
+      declarationKind: DeclarationKind.Constant,
+      isDefined: true,
+    });
+  }
+}
+
 export default Declaration;
@@ -0,0 +1,31 @@
+import ObjectType from "./object-type";
+import { Type } from "./types";
+
+/**
+ * The type of an enum's members. Enums are nominal, a value of an enum type
+ * can only be assigned to the same enum type, and not to `num` or `str`.
+ * The enum object itself (`Color` in `Color.Red`) has the type `objectType`,
+ * which maps the name of each member to the enum type.
+ */
+export default class EnumType extends Type {
+	public readonly name: string;
+	public readonly members: Map<string, number | string> = new Map();
+	public readonly objectType: ObjectType;
+
+	constructor(name: string) {
+		super(name, false);
+		this.name = name;
+		this.objectType = new ObjectType(`typeof ${name}`);
+	}
+
+	public defineMember(name: string, value: number | string) {
+		this.members.set(name, value);
+		this.objectType.defineProperty(name, this);
+	}
+
+	// enums are nominal, an enum type
+	// is never copied.
+	public clone(): EnumType {
+		return this;
+	}
+}
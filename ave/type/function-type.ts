@@ -1,4 +1,4 @@
-import { Type, t_any } from "./types";
+import { Type, t_any, t_void } from "./types";
 
 // Function Types
 // declared as (p1: t1, p2: t2) -> rt
@@ -14,6 +14,12 @@ export interface ParameterTypeInfo {
 export default class FunctionType extends Type {
   readonly params: ParameterTypeInfo[];
   returnType: Type;
+  // constructor types, like `new (name: str) -> Person`,
+  // are called with 'new' instead of being called directly.
+  isConstructor = false;
+  // the other signatures of an overloaded function, like the built-in
+  // `reduce`, which is called with or without an initial value.
+  overloads: FunctionType[] = [];
   private static readonly defaultTag = "<function>";
 
   public constructor(
@@ -41,13 +47,42 @@ export default class FunctionType extends Type {
     });
   }
 
+  // every signature of the function, starting with its own.
+  public get signatures(): FunctionType[] {
+    return [this as FunctionType].concat(this.overloads);
+  }
+
+  // returns the first signature that can be called with `argCount` arguments.
+  public signatureFor(argCount: number): FunctionType {
+    return this.signatures.filter((s) => s.accepts(argCount))[0] || this;
+  }
+
+  private accepts(argCount: number) {
+    const required = this.params.filter((p) => p.required && !p.isRest).length;
+    const hasRest = this.params.some((p) => p.isRest);
+    return argCount >= required && (hasRest || argCount <= this.params.length);
+  }
+
   public canAssign(t: Type) {
     if (!(t instanceof FunctionType)) return false;
-    if (!this.returnType.canAssign(t.returnType)) return false;
+    // an overloaded function can be used as any one of its signatures.
+    if (t.overloads.some((s) => this.canAssign(s))) return true;
+    if (t.isConstructor != this.isConstructor) return false;
+
+    // the result of a function returning 'void' is never
+    // used, so any function can be assigned to it.
+    if (this.returnType != t_void && !this.returnType.canAssign(t.returnType)) {
+      return false;
+    }
 
     // if (t.params.length != this.params.length) return false;
 
     for (let i = 0; i < t.params.length; i++) {
+      // t may only have extra parameters if they are optional.
+      if (!this.params[i]) {
+        if (t.params[i].required) return false;
+        continue;
+      }
       if (this.params[i].isRest != t.params[i].isRest) return false;
       if (!t.params[i].type.canAssign(this.params[i].type)) return false;
     }
@@ -57,6 +92,8 @@ export default class FunctionType extends Type {
 
   public clone(): FunctionType {
     let fnType = new FunctionType("", [], this.returnType.clone());
+    fnType.isConstructor = this.isConstructor;
+    fnType.overloads = this.overloads.map((s) => s.clone());
 
     for (let param of this.params) {
       fnType.params.push({
@@ -73,6 +110,16 @@ export default class FunctionType extends Type {
 
   public toString() {
     if (this.tag != FunctionType.defaultTag) return this.tag;
+    return (this.isConstructor ? "new " : "") + this.signatureString() + this.overloadsString();
+  }
+
+  // the other signatures of an overloaded function, like ` & (a: num) -> num`.
+  protected overloadsString() {
+    return this.overloads.map((s) => ` & ${s}`).join("");
+  }
+
+  // the parameters and the return type, like `(a: num) -> str`.
+  protected signatureString() {
     return `(${this.params
       .map((e) => {
         let s = e.required ? "" : "?";
@@ -91,6 +138,7 @@ export default class FunctionType extends Type {
     }
 
     fnType.returnType = fnType.returnType.substitute(t1, t2);
+    fnType.overloads = this.overloads.map((s) => s.substitute(t1, t2) as FunctionType);
     return fnType;
   }
 }
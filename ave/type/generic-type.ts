@@ -1,7 +1,8 @@
 import TokenType = require("../lexer/tokentype");
-import FunctionType from "./function-type";
+import FunctionType, { ParameterTypeInfo } from "./function-type";
 import ObjectType from "./object-type";
-import { Type, t_error, t_nil, unresolvedType } from "./types";
+import TupleType from "./tuple-type";
+import { PlaceHolderType, Type, t_any, t_error, t_nil, unresolvedType } from "./types";
 import UnionType from "./union-type";
 
 type TypeCacheEntry = [Type[], Type];
@@ -32,6 +33,31 @@ class TypeCache {
 
 		return null;
 	}
+
+	public keyOf(type: Type): Type[] | null {
+		for (let entry of this.entries) {
+			if (entry[1] == type) return entry[0];
+		}
+
+		return null;
+	}
+
+	public allEntries(): TypeCacheEntry[] {
+		return this.entries.slice();
+	}
+}
+
+// maps every instance of a generic type to the generic
+// type and the type arguments it was instantiated with.
+const instanceOrigins: WeakMap<Type, [GenericType, Type[]]> = new WeakMap();
+
+/**
+ * Returns the generic type and the type arguments that `type` was
+ * instantiated with, or null if `type` is not an instance of a generic type.
+ * @param {Type} type The type to look up.
+ */
+export function instanceOrigin(type: Type): [GenericType, Type[]] | null {
+	return instanceOrigins.get(type) || null;
 }
 
 export default class GenericType extends Type {
@@ -49,6 +75,7 @@ export default class GenericType extends Type {
 	}
 
 	public instantiate(args: Type[]): Type {
+		args = this.withDefaults(args);
 		if (args.length != this.typeParams.length)
 			throw new Error("incorrect number of arguments to generic type.");
 
@@ -67,13 +94,80 @@ export default class GenericType extends Type {
 		this.instanceCache.add(args, instance);
 
 		this.typeParams.forEach((_, i) => {
-			instance = this.replace(instance, args, instance, i);
+			instance = this.replaceParam(instance, args, i);
 		});
 
+		// an alias like `type Id<T> = T` is instantiated to an existing type,
+		// which is not an instance of the alias and must keep its own name.
+		if (instance.isPrimitive || args.indexOf(instance) != -1) return instance;
+
+		instanceOrigins.set(instance, [this, args]);
 		instance.setTag(this.name + `<${args.join(",")}>`);
 		return instance;
 	}
 
+	// the number of type parameters that have no default type.
+	public get requiredParamCount(): number {
+		return this.typeParams.filter(t => !(t instanceof PlaceHolderType && t.defaultType)).length;
+	}
+
+	/**
+	 * Adds the default types of the parameters that come after `args`.
+	 * A default type may mention the parameters before it, like `V` in `<K, V = K>`.
+	 * @param {Type[]} args The type arguments that were given.
+	 */
+	public withDefaults(args: Type[]): Type[] {
+		return fillDefaults(this.typeParams, args);
+	}
+
+	/**
+	 * Adds the members of `source` to this type, and to every instance of
+	 * this type created so far. This is used to fill in the members of
+	 * built in generics like `Array<T>` from their declarations in the prelude.
+	 * @param {GenericType} source A generic type with the same number of type parameters.
+	 */
+	public defineMembers(source: GenericType) {
+		const members = source.instantiate(this.typeParams);
+		members.properties.forEach((type, name) => this.innerType.defineProperty(name, type));
+
+		for (const [args, instance] of this.instanceCache.allEntries()) {
+			this.innerType.properties.forEach((type, name) => {
+				this.typeParams.forEach((_, i) => {
+					type = this.replace(instance, args, type, i);
+				});
+				instance.defineProperty(name, type);
+			});
+		}
+	}
+
+	/**
+	 * If `type` was created by instantiating this generic type,
+	 * returns the type arguments it was instantiated with.
+	 * @param {Type} type The type to look up.
+	 */
+	public typeArgsOf(type: Type): Type[] | null {
+		return this.instanceCache.keyOf(type);
+	}
+
+	// the members of an object type are replaced in place, so that references
+	// to the instance from it's own members are not lost.
+	private replaceParam(instance: Type, args: Type[], index: number): Type {
+		if (!(instance instanceof ObjectType)) return this.replace(instance, args, instance, index);
+
+		instance.properties.forEach((fieldType, fieldName) => {
+			instance.properties.set(fieldName, this.replace(instance, args, fieldType, index));
+		});
+		if (instance.constructorType) {
+			instance.constructorType = this.replace(
+				instance,
+				args,
+				instance.constructorType,
+				index
+			) as FunctionType;
+		}
+		return instance;
+	}
+
 	/**
 	 *
 	 * @param {Type} instance The generic instance currently being constructed
@@ -87,10 +181,12 @@ export default class GenericType extends Type {
 		const argType = args[index];
 		const paramType = this.typeParams[index];
 
-		// primitives like num, str etc cannot be replaced.
-		if (toReplace.isPrimitive && !toReplace.unresolved) return toReplace;
 		// parameter types <T, U, K> etc are replaced directly.
 		if (toReplace.id == paramType.id) return argType;
+		// the other parameters are replaced in their own turn.
+		if (toReplace instanceof PlaceHolderType) return toReplace;
+		// primitives like num, str etc cannot be replaced.
+		if (toReplace.isPrimitive && !toReplace.unresolved) return toReplace;
 
 		// handle generic instances (eg - LLNode<T>)
 		if (toReplace instanceof GenericInstance) {
@@ -114,22 +210,44 @@ export default class GenericType extends Type {
 			return t_error;
 		}
 
+		// instances of generic types (eg - `T[]`) are instantiated again
+		// with the replaced type arguments, instead of being copied.
+		const origin = instanceOrigins.get(toReplace);
+		if (origin) {
+			const [generic, typeArgs] = origin;
+			return generic.instantiate(typeArgs.map(t => this.replace(instance, args, t, index)));
+		}
+
 		if (toReplace instanceof ObjectType) {
-			const type = toReplace == instance ? toReplace : toReplace.clone();
+			if (toReplace == instance) return instance;
+			const type = toReplace.clone();
 			// replace every field that has some mention of a type parameter `<T>` with the actual type.
 			type.properties.forEach((fieldType, fieldName) => {
 				type.properties.set(fieldName, this.replace(instance, args, fieldType, index));
 			});
+			if (type.constructorType) {
+				type.constructorType = this.replace(
+					instance,
+					args,
+					type.constructorType,
+					index
+				) as FunctionType;
+			}
 			return type;
 		}
 
 		if (toReplace instanceof FunctionType) {
+			// the types are replaced from the original function, since
+			// cloning them would lose references to `instance`.
 			const ftype = toReplace.clone();
-			ftype.returnType = this.replace(instance, args, ftype.returnType, index);
+			ftype.returnType = this.replace(instance, args, toReplace.returnType, index);
 
-			ftype.params.forEach(param => {
-				param.type = this.replace(instance, args, param.type, index);
+			ftype.params.forEach((param, i) => {
+				param.type = this.replace(instance, args, toReplace.params[i].type, index);
 			});
+			ftype.overloads = toReplace.overloads.map(
+				s => this.replace(instance, args, s, index) as FunctionType
+			);
 
 			return ftype;
 		}
@@ -143,6 +261,11 @@ export default class GenericType extends Type {
 			return utype;
 		}
 
+		// eg - replace `[T, str]` with `[num, str]`
+		if (toReplace instanceof TupleType) {
+			return new TupleType(toReplace.elementTypes.map(t => this.replace(instance, args, t, index)));
+		}
+
 		return t_error;
 	}
 
@@ -186,3 +309,159 @@ export class GenericInstance extends Type {
 }
 
 export const t_Array = new GenericType("Array", new ObjectType("Array"), [unresolvedType("T")]);
+
+/**
+ * The type of a function with type parameters, like `func <T>first(items: T[]): T`.
+ * Every call instantiates it, with type arguments that are either
+ * written at the call, or inferred from the types of the arguments.
+ */
+export class GenericFunctionType extends FunctionType {
+	public readonly typeParams: Type[];
+
+	constructor(params: ParameterTypeInfo[], returnType: Type, typeParams: Type[]) {
+		super("", params, returnType);
+		this.typeParams = typeParams;
+	}
+
+	// returns the type of the function with every type parameter replaced.
+	public instantiate(args: Type[]): FunctionType {
+		const fn = new FunctionType("", this.params, this.returnType);
+		fn.isConstructor = this.isConstructor;
+		return substituteTypeParams(fn, this.typeParams, args) as FunctionType;
+	}
+
+	public clone(): GenericFunctionType {
+		const fn = super.clone();
+		const generic = new GenericFunctionType(fn.params, fn.returnType, this.typeParams);
+		generic.isConstructor = this.isConstructor;
+		generic.overloads = fn.overloads;
+		return generic;
+	}
+
+	public toString() {
+		const typeParams = `<${this.typeParams.join(", ")}>`;
+		const signature = typeParams + this.signatureString() + this.overloadsString();
+		return (this.isConstructor ? "new " : "") + signature;
+	}
+}
+
+/**
+ * Returns a copy of `type` with the type parameters in `params` replaced
+ * by the types at the same index in `args`. Parts of the type that don't
+ * mention any of the parameters are not copied.
+ * @param {Type} type The type to replace the parameters in.
+ * @param {Type[]} params The type parameters.
+ * @param {Type[]} args The types that replace them.
+ */
+export function substituteTypeParams(type: Type, params: Type[], args: Type[]): Type {
+	// copies of the object types, so that recursive references are kept.
+	const copies: Map<Type, Type> = new Map();
+
+	const substitute = (t: Type): Type => {
+		const index = params.indexOf(t);
+		if (index != -1) return args[index];
+		if (!mentionsTypeParams(t, params, new Set())) return t;
+
+		const origin = instanceOrigins.get(t);
+		if (origin) return origin[0].instantiate(origin[1].map(substitute));
+
+		if (t instanceof GenericInstance) {
+			return t.parent ? t.parent.instantiate(t.typeArgs.map(substitute)) : t;
+		}
+
+		if (t instanceof FunctionType) {
+			const fn = t.clone();
+			fn.params.forEach((param, i) => (param.type = substitute(t.params[i].type)));
+			fn.returnType = substitute(t.returnType);
+			fn.overloads = t.overloads.map(s => substitute(s) as FunctionType);
+			return fn;
+		}
+
+		if (t instanceof UnionType) return new UnionType(...t.types.map(substitute));
+		if (t instanceof TupleType) return new TupleType(t.elementTypes.map(substitute));
+
+		if (t instanceof ObjectType) {
+			const cached = copies.get(t);
+			if (cached) return cached;
+
+			const copy = t.clone();
+			copies.set(t, copy);
+			t.properties.forEach((fieldType, name) => copy.properties.set(name, substitute(fieldType)));
+			if (t.constructorType) copy.constructorType = substitute(t.constructorType) as FunctionType;
+			return copy;
+		}
+
+		return t;
+	};
+
+	return substitute(type);
+}
+
+function mentionsTypeParams(type: Type, params: Type[], visited: Set<Type>): boolean {
+	if (params.indexOf(type) != -1) return true;
+	if (visited.has(type)) return false;
+	visited.add(type);
+
+	const mentions = (t: Type) => mentionsTypeParams(t, params, visited);
+
+	const origin = instanceOrigins.get(type);
+	if (origin) return origin[1].some(mentions);
+	if (type instanceof GenericInstance) return type.typeArgs.some(mentions);
+	if (type instanceof FunctionType) {
+		const signatureMentions = type.params.some(p => mentions(p.type)) || mentions(type.returnType);
+		return signatureMentions || type.overloads.some(mentions);
+	}
+	if (type instanceof UnionType) return type.types.some(mentions);
+	if (type instanceof TupleType) return type.elementTypes.some(mentions);
+	if (type instanceof ObjectType) {
+		const members = Array.from(type.properties.values());
+		return members.some(mentions) || (!!type.constructorType && mentions(type.constructorType));
+	}
+	return false;
+}
+
+/**
+ * Adds the default types of the type parameters that have no argument.
+ * Parameters that have no default type are left without an argument.
+ * @param {Type[]} params The type parameters.
+ * @param {Type[]} args The type arguments that were given.
+ */
+export function fillDefaults(params: Type[], args: Type[]): Type[] {
+	const filled = args.slice();
+	for (let i = args.length; i < params.length; i++) {
+		const param = params[i];
+		if (!(param instanceof PlaceHolderType && param.defaultType)) break;
+		filled.push(substituteTypeParams(param.defaultType, params.slice(0, i), filled));
+	}
+	return filled;
+}
+
+/**
+ * Returns an error message naming the first type argument that is not
+ * assignable to the constraint of its parameter, or null if they all are.
+ * @param {Type[]} params The type parameters.
+ * @param {Type[]} args The type arguments, one for every parameter.
+ */
+export function unsatisfiedConstraint(params: Type[], args: Type[]): string | null {
+	for (let i = 0; i < params.length; i++) {
+		const param = params[i];
+		if (!(param instanceof PlaceHolderType && param.constraint)) continue;
+
+		// `any` and types with errors satisfy every constraint.
+		const arg = args[i];
+		if (arg == t_any || arg == t_error || arg.unresolved) continue;
+
+		const constraint = substituteTypeParams(param.constraint, params, args);
+		if (constraint == t_error || satisfies(arg, constraint)) continue;
+		return `Type '${arg}' does not satisfy the constraint '${constraint}' of type parameter '${param}'.`;
+	}
+	return null;
+}
+
+// a type parameter satisfies a constraint if its own constraint does.
+function satisfies(arg: Type, constraint: Type): boolean {
+	if (constraint.canAssign(arg)) return true;
+	return (
+		arg instanceof PlaceHolderType && !!arg.constraint && satisfies(arg.constraint, constraint)
+	);
+}
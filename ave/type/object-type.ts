@@ -1,22 +1,30 @@
 import Checker from "../checker/checker";
+import FunctionType from "./function-type";
 import { Type } from "./types";
 
 export default class ObjectType extends Type {
 	public readonly cache: Set<Type> = new Set();
+	// the construct signature of a struct, like the built-in `PromiseConstructor`.
+	public constructorType: FunctionType | null = null;
+	// properties that an object of this type may leave out,
+	// like the optional members of Typescript interfaces.
+	public readonly optionalProperties: Set<string> = new Set();
 
 	constructor(tag?: string) {
 		super(tag || "", false);
 	}
 
 	public canAssign(t: Type) {
-		if (t == this) return true;
+		if (t == this || t.isSubtypeOf(this)) return true;
 		if (this.cache.has(t)) return true;
+		if (!constructorsMatch(this, t)) return false;
 		this.cache.add(t);
 		let propArray = Array.from(this.properties);
 
 		for (let [key, type] of propArray) {
 			// TODO handle any type
 			if (!t.hasProperty(key)) {
+				if (this.optionalProperties.has(key)) continue;
 				this.cache.delete(t);
 				return false;
 			}
@@ -33,6 +41,8 @@ export default class ObjectType extends Type {
 
 	public clone(): ObjectType {
 		let copy = new ObjectType(this.tag);
+		copy.constructorType = this.constructorType;
+		this.optionalProperties.forEach(name => copy.optionalProperties.add(name));
 
 		this.properties.forEach((v: Type, k: string) => {
 			copy.defineProperty(k, v);
@@ -47,6 +57,9 @@ export default class ObjectType extends Type {
 		copy.properties.forEach((type, k) => {
 			copy.properties.set(k, type.substitute(ta, tb));
 		});
+		if (copy.constructorType) {
+			copy.constructorType = copy.constructorType.substitute(ta, tb) as FunctionType;
+		}
 
 		return copy;
 	}
@@ -54,7 +67,8 @@ export default class ObjectType extends Type {
 	toString() {
 		if (this.tag) return this.tag;
 		const a = Array.from(this.properties);
-		return `{${a.map(e => `${e[0]}: ${e[1].toString()}`).join(", ")}}`;
+		const optional = (name: string) => (this.optionalProperties.has(name) ? "?" : "");
+		return `{${a.map(e => `${e[0]}${optional(e[0])}: ${e[1].toString()}`).join(", ")}}`;
 	}
 }
 
@@ -64,8 +78,12 @@ export default class ObjectType extends Type {
 // ta.canAssign for better error reporting.
 
 export function checkObjectAssignment(ta: ObjectType, tb: Type, checker: Checker): boolean {
-	if (tb == ta) return true;
+	if (tb == ta || tb.isSubtypeOf(ta)) return true;
 	if (ta.cache.has(tb)) return true;
+	if (!constructorsMatch(ta, tb)) {
+		checker.warn(`type '${tb}' cannot be called with 'new' like type '${ta}'`);
+		return false;
+	}
 	ta.cache.add(tb);
 
 	const propArray = Array.from(ta.properties);
@@ -73,9 +91,10 @@ export function checkObjectAssignment(ta: ObjectType, tb: Type, checker: Checker
 	let result = true;
 
 	for (let [name, type] of propArray) {
-		// TODO handle any type and optional properties.
+		// TODO handle any type.
 
 		if (!tb.hasProperty(name)) {
+			if (ta.optionalProperties.has(name)) continue;
 			missingPropertyNames.push(name);
 			result = false;
 			ta.cache.delete(tb);
@@ -102,3 +121,11 @@ export function checkObjectAssignment(ta: ObjectType, tb: Type, checker: Checker
 	if (!result) ta.cache.delete(tb);
 	return result;
 }
+
+// a struct with a construct signature only accepts values
+// that can be called with 'new' in the same way.
+function constructorsMatch(ta: ObjectType, tb: Type): boolean {
+	if (!ta.constructorType) return true;
+	if (!(tb instanceof ObjectType) || !tb.constructorType) return false;
+	return ta.constructorType.canAssign(tb.constructorType);
+}
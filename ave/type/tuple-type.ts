@@ -1,5 +1,45 @@
-import { Type } from "./types";
+import { Type, t_bottom, t_number } from "./types";
 
+/** A tuple is a fixed length array where the element at
+ * each position has it's own type. A tuple type T can be
+ * assigned to a tuple type T' if both have the same length,
+ * and every element of T can be assigned to the element of
+ * T' at the same position.
+ * @param elementTypes types of the elements, in order.
+ */
 export default class TupleType extends Type {
-  
-}
\ No newline at end of file
+  public elementTypes: Type[];
+
+  constructor(elementTypes: Type[]) {
+    super('<%tuple%>', false);
+    this.elementTypes = elementTypes;
+    this.defineProperty('length', t_number);
+  }
+
+  get length(): number {
+    return this.elementTypes.length;
+  }
+
+  public canAssign(t2: Type): boolean {
+    if (t2 == this || t2 == t_bottom) return true;
+    if (!(t2 instanceof TupleType) || t2.length != this.length) return false;
+
+    for (let i = 0; i < this.length; i++) {
+      if (!this.elementTypes[i].canAssign(t2.elementTypes[i])) return false;
+    }
+
+    return true;
+  }
+
+  public clone(): TupleType {
+    return new TupleType(this.elementTypes.slice());
+  }
+
+  public substitute(t1: Type, t2: Type): Type {
+    return new TupleType(this.elementTypes.map(t => t.substitute(t1, t2)));
+  }
+
+  public toString() {
+    return `[${this.elementTypes.join(', ')}]`;
+  }
+}
@@ -47,8 +47,9 @@ export class Type {
 
 	public hasProperty(key: string): boolean {
 		if (this == t_any) return true;
+		if (this.properties.has(key)) return true;
 		if (this.superType) return this.superType.hasProperty(key);
-		return this.properties.has(key);
+		return false;
 	}
 
 	public hasOwnProperty(key: string): boolean {
@@ -71,7 +72,7 @@ export class Type {
 	public hasMethod(name: string): boolean {
 		if (this == t_any) return true;
 		if (this.properties.has(name)) return this.properties.get(name) instanceof FunctionType;
-		if (this.superType) this.superType.hasMethod(name);
+		if (this.superType) return this.superType.hasMethod(name);
 		return false;
 	}
 
@@ -80,6 +81,18 @@ export class Type {
 		return this.properties.has(key) && this.properties.get(key) instanceof FunctionType;
 	}
 
+	/**
+	 * Returns `true` if `t` appears anywhere in the
+	 * chain of super types of this type.
+	 * @param t {Type} The type to look for.
+	 */
+	public isSubtypeOf(t: Type): boolean {
+		for (let tSuper = this.superType; tSuper; tSuper = tSuper.superType) {
+			if (tSuper == t) return true;
+		}
+		return false;
+	}
+
 	public defineProperty(name: string, type: Type) {
 		this.properties.set(name, type);
 	}
@@ -137,11 +150,25 @@ export const t_infer = new Type("<%_infer_%>", true);
 export const t_bottom = new Type("bottom", true);
 
 export class PlaceHolderType extends Type {
+	// the type used when no type argument is given for this parameter.
+	defaultType: Type | null = null;
+
 	constructor(tag: string) {
 		super(tag, false);
 		this.unresolved = false;
 	}
 
+	// type arguments for this parameter must be assignable to its constraint
+	// (`T` in `<T: Named>`). The constraint is the super type of the parameter,
+	// so that the members of the constraint can be used on values of type `T`.
+	get constraint(): Type | null {
+		return this.superType;
+	}
+
+	set constraint(type: Type | null) {
+		this.superType = type;
+	}
+
 	clone() {
 		return this;
 	}
@@ -176,6 +203,8 @@ export function fromString(str: string): Type {
 			return t_undef;
 		case TypeName.nil:
 			return t_nil;
+		case TypeName.void:
+			return t_void;
 		// case TypeName.object:
 		//   return t_object;
 	}
@@ -1,4 +1,4 @@
-import { Type } from './types';
+import { Type, t_nil, t_undef } from './types';
 
 /** A Union type is a collection of smaller sub-types.
  * a type T can be assigned to a Union type, if it can be
@@ -56,3 +56,34 @@ export default class UnionType extends Type {
     return this.types.join('|');
   }
 }
+
+/**
+ * Creates the union of the given types. Nested unions are flattened
+ * and duplicate types are removed. If only a single type remains, that
+ * type is returned instead of a union.
+ * @param types The types to join.
+ */
+export function unionOf(...types: Type[]): Type {
+  const members: Type[] = [];
+
+  for (const type of types) {
+    const subtypes = type instanceof UnionType ? type.types : [type];
+    for (const t of subtypes) {
+      if (members.indexOf(t) == -1) members.push(t);
+    }
+  }
+
+  if (members.length == 1) return members[0];
+  return new UnionType(...members);
+}
+
+/**
+ * Removes `nil` and `undefined` from a type. If the
+ * type is neither of them or a union containing them,
+ * it is returned as is.
+ * @param type The type to remove `nil` from.
+ */
+export function withoutNil(type: Type): Type {
+  if (!(type instanceof UnionType)) return type;
+  return unionOf(...type.types.filter(t => t != t_nil && t != t_undef));
+}
@@ -24,3 +24,52 @@ export const getFiles = (source: string) =>
   readdirSync(source, { withFileTypes: true })
     .filter((dirent) => dirent.isFile())
     .map((dirent) => dirent.name);
+
+/**
+ * Checks if an import path like "./math" refers to a file relative
+ * to the importing file, instead of a package.
+ * @param source the imported path
+ */
+export const isRelativeImport = (source: string) =>
+  source.startsWith("./") || source.startsWith("../");
+
+/**
+ * Returns the path that an import compiles to. Relative imports
+ * refer to the compiled '.js' file, packages are left as they are.
+ * @param source the imported path
+ */
+export const compiledImportPath = (source: string) =>
+  isRelativeImport(source) ? source.replace(/(\.ave|\.js)?$/, ".js") : source;
+
+/**
+ * Checks if a path like "lib/math.ave" matches a glob pattern. `*` matches
+ * any characters except '/', `?` matches a single character and `**`
+ * matches any number of directories. A pattern that matches a directory
+ * matches all the files inside it too.
+ * @param filePath a relative path, with '/' as the separator
+ * @param pattern the glob pattern
+ */
+export const matchesGlob = (filePath: string, pattern: string) =>
+  globToRegExp(pattern.replace(/^\.\//, "")).test(filePath);
+
+function globToRegExp(pattern: string): RegExp {
+  let regex = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c == "*" && pattern[i + 1] == "*") {
+      // "**/" also matches no directories at all.
+      const slash = pattern[i + 2] == "/";
+      regex += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c == "*") {
+      regex += "[^/]*";
+    } else if (c == "?") {
+      regex += "[^/]";
+    } else {
+      regex += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${regex}(?:/.*)?$`);
+}
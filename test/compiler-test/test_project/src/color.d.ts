@@ -0,0 +1,13 @@
+// Type definitions for a Javascript module, written by hand.
+export interface Color {
+  readonly r: number;
+  g: number;
+  b: number;
+  name?: string;
+  toHex(): string;
+}
+
+export type Channel = "r" | "g" | "b";
+
+export declare const black: Color;
+export declare function mix(a: Color, b: Color, weight?: number): Color;